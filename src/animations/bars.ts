@@ -4,6 +4,16 @@
  * Bars show the actual progress as a filled/unfilled visual.
  */
 
+import {
+  type Color,
+  type ColorLevel,
+  colorCode,
+  gradientAt,
+  paint,
+  toRgb,
+} from "../utils/color-support.js";
+import { fgRgb, RESET } from "../utils/colors.js";
+
 /**
  * A rendered bar frame ready for display.
  */
@@ -22,9 +32,21 @@ export type Bar = (
 ) => BarFrame;
 
 /**
- * A bar factory creates a bar renderer with a specific length.
+ * Colors a bar is drawn with, and the color level of the terminal.
+ */
+export interface BarColors {
+  level: ColorLevel;
+  /** Color of the filled portion */
+  fill?: Color;
+  /** Color of the unfilled background */
+  background?: Color;
+}
+
+/**
+ * A bar factory creates a bar renderer with a specific length, drawn in
+ * colors when given.
  */
-export type BarFactory = (length: number) => Bar;
+export type BarFactory = (length: number, colors?: BarColors) => Bar;
 
 /**
  * Options for creating a bar.
@@ -40,6 +62,13 @@ export interface BarOptions {
   borders?: [string, string] | null;
   /** Error indicator characters [underflow, overflow] */
   errors?: [string, string];
+  /** Colors the fill fades through, e.g. ['#ff0000', '#ffff00', '#00ff00'] */
+  gradient?: Color[] | null;
+  /**
+   * 'position' colors each filled cell by where it sits in the bar,
+   * 'percent' colors the whole fill by the overall percent
+   */
+  gradientBy?: "position" | "percent";
 }
 
 const DEFAULT_OPTIONS: Required<BarOptions> = {
@@ -48,8 +77,53 @@ const DEFAULT_OPTIONS: Required<BarOptions> = {
   background: " ",
   borders: ["|", "|"],
   errors: ["⚠", "✗"],
+  gradient: null,
+  gradientBy: "position",
 };
 
+/**
+ * Escape code of an RGB color, as close as the color level allows.
+ */
+function rgbCode(
+  [r, g, b]: [number, number, number],
+  level: ColorLevel
+): string {
+  return level === 3 ? fgRgb(r, g, b) : colorCode([r, g, b], level);
+}
+
+/**
+ * Draw filled cells along a gradient: each by its position in the bar, or
+ * all by the overall percent. Runs of cells sharing a color share its code.
+ */
+function paintGradient(
+  cells: string[],
+  stops: [number, number, number][],
+  mode: "position" | "percent",
+  percent: number,
+  innerLength: number,
+  level: ColorLevel
+): string {
+  if (cells.length === 0 || level === 0) {
+    return cells.join("");
+  }
+  if (mode === "percent") {
+    return `${rgbCode(gradientAt(stops, percent), level)}${cells.join("")}${RESET}`;
+  }
+
+  let content = "";
+  let lastCode = "";
+  const span = Math.max(1, innerLength - 1);
+  for (const [i, cell] of cells.entries()) {
+    const code = rgbCode(gradientAt(stops, i / span), level);
+    if (code !== lastCode) {
+      content += code;
+      lastCode = code;
+    }
+    content += cell;
+  }
+  return `${content}${RESET}`;
+}
+
 /**
  * Create a progress bar factory.
  *
@@ -65,11 +139,18 @@ const DEFAULT_OPTIONS: Required<BarOptions> = {
  *
  * // Bar with themed borders
  * barFactory({ borders: ['[', ']'], background: '-' })
+ *
+ * // Bar fading from red to green (when the terminal has colors)
+ * barFactory({ gradient: ['#ff0000', '#ffff00', '#00ff00'] })
  */
 export function barFactory(options: BarOptions = {}): BarFactory {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  if (opts.gradient?.length === 0) {
+    throw new Error("A gradient needs at least one color");
+  }
+  const stops = opts.gradient?.map(toRgb) ?? null;
 
-  return (length: number): Bar => {
+  return (length: number, colors?: BarColors): Bar => {
     const borderLeft = opts.borders ? opts.borders[0] : "";
     const borderRight = opts.borders ? opts.borders[1] : "";
     const borderWidth = borderLeft.length + borderRight.length;
@@ -83,6 +164,7 @@ export function barFactory(options: BarOptions = {}): BarFactory {
     const bgChar = opts.background;
     const tipChars = opts.tip ? [...opts.tip] : [];
     const tipWidth = tipChars.length;
+    const level = colors?.level ?? 0;
 
     return (percent: number, overflow = false, underflow = false): BarFrame => {
       // Clamp percent to 0-1 for display
@@ -118,12 +200,29 @@ export function barFactory(options: BarOptions = {}): BarFactory {
         }
       }
 
+      const filledCells = Math.min(barCells.length, innerLength);
+
       // Fill remaining with background
       while (barCells.length < innerLength) {
         barCells.push(bgChar);
       }
 
-      content += barCells.slice(0, innerLength).join("");
+      const filled = barCells.slice(0, filledCells);
+      content += stops
+        ? paintGradient(
+            filled,
+            stops,
+            opts.gradientBy,
+            clampedPercent,
+            innerLength,
+            level
+          )
+        : paint(filled.join(""), colors?.fill, level);
+      content += paint(
+        barCells.slice(filledCells, innerLength).join(""),
+        colors?.background,
+        level
+      );
 
       // Add right border with error indicators
       if (overflow) {
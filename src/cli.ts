@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * Command line interface.
+ *
+ * alive-progress exec [--parse <parser>] [--title <title>] -- <command> [args...]
+ *
+ * Runs a command under a progress bar fed by its output, and exits with the
+ * command's exit code.
+ */
+
+import { constants } from "node:os";
+import { type ParserName, parsers } from "./core/exec.js";
+import { aliveExec } from "./index.js";
+
+const USAGE = `Usage: alive-progress exec [options] -- <command> [args...]
+
+Options:
+  --parse <parser>  Output parser: ${Object.keys(parsers).join(", ")} (default: percentage)
+  --title <title>   Title displayed before the bar
+  -h, --help        Show this help`;
+
+interface ExecArgs {
+  parse: ParserName;
+  title: string | undefined;
+  command: string;
+  args: string[];
+}
+
+/**
+ * Parse the arguments of the exec subcommand, or return an error message.
+ */
+function parseExecArgs(argv: string[]): ExecArgs | string {
+  const separator = argv.indexOf("--");
+  const flags = separator === -1 ? argv : argv.slice(0, separator);
+  const [command, ...args] = separator === -1 ? [] : argv.slice(separator + 1);
+
+  let parse: ParserName = "percentage";
+  let title: string | undefined;
+
+  for (let i = 0; i < flags.length; i++) {
+    const flag = flags[i];
+    const value = flags[i + 1];
+
+    if (flag === "--parse" && value !== undefined) {
+      if (!(value in parsers)) {
+        return `Unknown parser "${value}"`;
+      }
+      parse = value as ParserName;
+      i++;
+    } else if (flag === "--title" && value !== undefined) {
+      title = value;
+      i++;
+    } else {
+      return `Unknown option "${flag}"`;
+    }
+  }
+
+  if (!command) {
+    return "Missing command after --";
+  }
+
+  return { parse, title, command, args };
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [subcommand, ...rest] = argv;
+
+  if (subcommand === "-h" || subcommand === "--help") {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (subcommand !== "exec") {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const parsed = parseExecArgs(rest);
+  if (typeof parsed === "string") {
+    console.error(`${parsed}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const receipt = await aliveExec(parsed.command, parsed.args, {
+    parse: parsed.parse,
+    title: parsed.title,
+  });
+
+  // Mirror the command, using the shell convention for signals
+  if (receipt.exitCode !== null) {
+    return receipt.exitCode;
+  }
+  return receipt.signal ? 128 + constants.signals[receipt.signal] : 1;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,73 @@
+/**
+ * Checkpoint persistence for resumable progress.
+ *
+ * A checkpoint is a small JSON file holding a bar's counters, elapsed time
+ * and smoothed rate, so a restarted job can pick up where it left off with a
+ * meaningful ETA.
+ */
+
+import { readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+
+/**
+ * Saved progress of a bar.
+ */
+export interface Checkpoint {
+  version: number;
+  total: number | null;
+  current: number;
+  skipped: number;
+  items: number;
+  failed: number;
+  /** Total elapsed seconds across all sessions so far */
+  elapsed: number;
+  /** Smoothed rate (items per second) when saved */
+  rate: number;
+}
+
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * Minimum time between periodic checkpoint writes.
+ */
+export const CHECKPOINT_INTERVAL_MS = 1000;
+
+/**
+ * Read a checkpoint, or null if missing, unreadable or from another version.
+ */
+export function readCheckpoint(path: string): Checkpoint | null {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(raw) as Checkpoint;
+    return data?.version === CHECKPOINT_VERSION ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a checkpoint atomically (write to a temp file, then rename).
+ */
+export function writeCheckpoint(
+  path: string,
+  checkpoint: Omit<Checkpoint, "version">
+): void {
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(
+    tmpPath,
+    JSON.stringify({ version: CHECKPOINT_VERSION, ...checkpoint })
+  );
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Remove a checkpoint, if present.
+ */
+export function removeCheckpoint(path: string): void {
+  rmSync(path, { force: true });
+}
@@ -0,0 +1,274 @@
+/**
+ * Configuration files.
+ *
+ * Options can live next to the code they affect, so a repository can change
+ * how its bars look and behave without touching its scripts. Starting from
+ * the working directory and moving up, the first directory holding any of
+ * these wins:
+ *
+ * - .aliveprogressrc (JSON, comments and trailing commas allowed)
+ * - alive-progress.config.js, .mjs or .json
+ * - package.json with an "aliveProgress" key
+ *
+ * The search stops at the nearest package.json, the root of the project.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { warnOnce } from "../utils/registry.js";
+import type { AliveBarOptions } from "./configuration.js";
+
+/**
+ * Names of the configuration files, by precedence within a directory.
+ */
+const CONFIG_FILES = [
+  ".aliveprogressrc",
+  "alive-progress.config.js",
+  "alive-progress.config.mjs",
+  "alive-progress.config.json",
+];
+
+/**
+ * Key holding the options in package.json.
+ */
+const PACKAGE_KEY = "aliveProgress";
+
+/**
+ * A configuration file found for a directory.
+ */
+export interface ConfigFile {
+  path: string;
+  options: AliveBarOptions;
+}
+
+/**
+ * Loaded configuration, by the directory the search started from.
+ */
+const cache = new Map<string, ConfigFile | null>();
+
+/**
+ * Copy `text` to a new string, leaving out what `skip` says to at each
+ * position outside string literals (`skip` returns how many characters).
+ */
+function scanJson(
+  text: string,
+  skip: (text: string, index: number) => number
+): string {
+  let output = "";
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      output += text.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    const skipped = skip(text, i);
+    if (skipped > 0) {
+      i += skipped;
+    } else {
+      output += text[i];
+      i++;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Length of the comment starting at `index`, if any.
+ */
+function commentLength(text: string, index: number): number {
+  if (text.startsWith("//", index)) {
+    const end = text.indexOf("\n", index);
+    return (end === -1 ? text.length : end) - index;
+  }
+  if (text.startsWith("/*", index)) {
+    const end = text.indexOf("*/", index + 2);
+    return (end === -1 ? text.length : end + 2) - index;
+  }
+  return 0;
+}
+
+const WHITESPACE_REGEX = /\s/;
+
+/**
+ * 1 if a trailing comma (one closing an object or array) is at `index`.
+ */
+function trailingCommaLength(text: string, index: number): number {
+  if (text[index] !== ",") {
+    return 0;
+  }
+
+  let next = index + 1;
+  while (next < text.length && WHITESPACE_REGEX.test(text[next])) {
+    next++;
+  }
+  return text[next] === "}" || text[next] === "]" ? 1 : 0;
+}
+
+/**
+ * Parse JSON that may hold comments and trailing commas.
+ */
+export function parseJsonc(text: string): unknown {
+  const withoutComments = scanJson(text, commentLength);
+  return JSON.parse(scanJson(withoutComments, trailingCommaLength));
+}
+
+/**
+ * Check that a file holds options, and return them.
+ */
+function asOptions(value: unknown, path: string): AliveBarOptions {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid configuration in ${path}: expected an object`);
+  }
+  return value as AliveBarOptions;
+}
+
+/**
+ * Read a JSON (or JSONC) file.
+ */
+function readJson(path: string): unknown {
+  try {
+    return parseJsonc(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${path}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Load a JavaScript configuration, taking its default export if it has one.
+ * ES modules need a runtime that can require them, or a prior loadConfig():
+ * without either they are skipped with a warning, so a dropped-in file never
+ * breaks the scripts it configures.
+ */
+function requireScript(path: string): unknown {
+  let loaded: { default?: unknown };
+  try {
+    loaded = createRequire(import.meta.url)(path);
+  } catch (error) {
+    const { code } = error as NodeJS.ErrnoException;
+    if (code === "ERR_REQUIRE_ESM" || code === "ERR_REQUIRE_ASYNC_MODULE") {
+      warnOnce(
+        `Ignoring ${path}, an ES module this runtime cannot require: call \`await loadConfig()\` before creating bars to apply it`
+      );
+      return {};
+    }
+    throw error;
+  }
+  return loaded.default ?? loaded;
+}
+
+/**
+ * Whether a package.json holds options. One that cannot be read is warned
+ * about rather than thrown on, as it is rarely there for this library.
+ */
+function hasPackageKey(path: string): boolean {
+  let pkg: unknown;
+  try {
+    pkg = readJson(path);
+  } catch (error) {
+    warnOnce(`Ignoring ${(error as Error).message}`);
+    return false;
+  }
+  return typeof pkg === "object" && pkg !== null && PACKAGE_KEY in pkg;
+}
+
+/**
+ * Find the configuration file that applies to a directory, or null.
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+  let directory = resolve(cwd);
+
+  while (true) {
+    for (const name of CONFIG_FILES) {
+      const path = join(directory, name);
+      if (existsSync(path)) {
+        return path;
+      }
+    }
+
+    // The nearest package.json marks the project root: look no further
+    const packagePath = join(directory, "package.json");
+    if (existsSync(packagePath)) {
+      return hasPackageKey(packagePath) ? packagePath : null;
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Read the options of a configuration file found by findConfigFile().
+ */
+function readConfigFile(path: string): AliveBarOptions {
+  if (path.endsWith("package.json")) {
+    const pkg = readJson(path) as Record<string, unknown>;
+    return asOptions(pkg[PACKAGE_KEY], path);
+  }
+  if (path.endsWith(".js") || path.endsWith(".mjs")) {
+    return asOptions(requireScript(path), path);
+  }
+  return asOptions(readJson(path), path);
+}
+
+/**
+ * Get the options of the configuration file that applies to a directory,
+ * loading it on first use. Returns an empty object when there is none.
+ */
+export function getFileConfig(cwd: string = process.cwd()): AliveBarOptions {
+  const key = resolve(cwd);
+  if (!cache.has(key)) {
+    const path = findConfigFile(key);
+    cache.set(key, path ? { path, options: readConfigFile(path) } : null);
+  }
+  return cache.get(key)?.options ?? {};
+}
+
+/**
+ * Load the configuration file that applies to a directory ahead of time.
+ * Needed for ES module configurations on runtimes that cannot require them.
+ *
+ * @example
+ * await loadConfig();
+ * const { bar, done } = aliveBar(100); // uses alive-progress.config.mjs
+ */
+export async function loadConfig(
+  cwd: string = process.cwd()
+): Promise<ConfigFile | null> {
+  const key = resolve(cwd);
+  const path = findConfigFile(key);
+  let file: ConfigFile | null = null;
+
+  if (path?.endsWith(".js") || path?.endsWith(".mjs")) {
+    const loaded = (await import(pathToFileURL(path).href)) as {
+      default?: unknown;
+    };
+    file = { path, options: asOptions(loaded.default ?? loaded, path) };
+  } else if (path) {
+    file = { path, options: readConfigFile(path) };
+  }
+
+  cache.set(key, file);
+  return file;
+}
+
+/**
+ * Forget loaded configuration files, so they are read again on next use.
+ */
+export function clearConfigCache(): void {
+  cache.clear();
+}
@@ -12,6 +12,60 @@ import {
   getTheme,
   type Theme,
 } from "../styles/internal.js";
+import {
+  type Color,
+  type ColorLevel,
+  parseColor,
+} from "../utils/color-support.js";
+import { warnOnce } from "../utils/registry.js";
+import { getFileConfig } from "./config-file.js";
+import { type Layout, type LayoutOption, parseLayout } from "./layout.js";
+
+/**
+ * A named stage of a bar, weighted relative to the other stages.
+ */
+export interface Stage {
+  name: string;
+  /** Relative weight in the overall progress (default: 1) */
+  weight?: number;
+}
+
+/**
+ * File the final report of a bar is written to.
+ */
+export interface ReportTarget {
+  path: string;
+  /** 'json' overwrites the file, 'ndjson' appends a line (default: from the extension) */
+  format?: "json" | "ndjson";
+}
+
+/**
+ * Colors of the parts of the progress line. Each is drawn with the closest
+ * color the terminal supports, or left plain when it has none.
+ */
+export interface ColorOptions {
+  /** Filled portion of the bar */
+  bar?: Color;
+  /** Unfilled background of the bar */
+  background?: Color;
+  spinner?: Color;
+  title?: Color;
+  /** Monitor, elapsed, stats and registered widgets */
+  widgets?: Color;
+}
+
+/**
+ * Symbols closing a receipt, by how the bar ended.
+ */
+export interface ReceiptSymbols {
+  /** Finished with its total reached */
+  success: string;
+  /** Finished short of its total */
+  warning: string;
+  /** Overflowed, crashed or had failures; also marks failed counts */
+  failure: string;
+  cancelled: string;
+}
 
 /**
  * All configurable options for the progress bar.
@@ -26,10 +80,12 @@ export interface AliveBarOptions {
   bar?: string | BarFactory;
   /** Unknown mode spinner (for indeterminate progress) */
   unknown?: string | SpinnerFactory;
-  /** Theme name (sets spinner, bar, and unknown) */
-  theme?: string;
+  /** Theme, or theme name, providing defaults for the options below */
+  theme?: string | Theme;
   /** Title displayed before the bar */
   title?: string;
+  /** Named stages the bar goes through, in order (see bar.stage()) */
+  stages?: (string | Stage)[];
 
   // Output
   /** Output stream */
@@ -38,6 +94,10 @@ export interface AliveBarOptions {
   forceTty?: boolean | null;
   /** Disable all output */
   disable?: boolean;
+  /** Colors of the parts of the progress line */
+  colors?: ColorOptions;
+  /** Color level to draw with, or null to detect it from the output stream */
+  colorLevel?: ColorLevel | null;
 
   // Widgets
   /** Show progress monitor (count/total [percent]) */
@@ -50,6 +110,14 @@ export interface AliveBarOptions {
   receipt?: boolean;
   /** Include last message in receipt */
   receiptText?: boolean;
+  /** Symbols closing the receipt */
+  receiptSymbols?: Partial<ReceiptSymbols>;
+  /** Registered widgets to show after the built-in ones, by name */
+  widgets?: string[];
+  /** Template of the progress line, replacing the default arrangement */
+  layout?: LayoutOption;
+  /** Show a sparkline of the throughput over time in the receipt */
+  sparkline?: boolean;
 
   // Behavior
   /** Manual mode (set percentage directly) */
@@ -60,6 +128,16 @@ export interface AliveBarOptions {
   dualLine?: boolean;
   /** Fixed refresh rate in seconds (0 for auto) */
   refreshSecs?: number;
+  /** Cancel the bar when this signal aborts */
+  signal?: AbortSignal;
+  /**
+   * File to save progress to, and resume from on restart (not with stages).
+   * Counters, elapsed time and the smoothed rate are saved; samples and rate
+   * statistics in the receipt cover the current session only.
+   */
+  checkpoint?: string;
+  /** Write the receipt and run details to a JSON/NDJSON file on completion */
+  report?: string | ReportTarget;
 
   // Calibration
   /** Calibration value for FPS calculation */
@@ -74,6 +152,13 @@ export interface AliveBarOptions {
   scale?: "SI" | "IEC" | "SI2" | null;
   /** Decimal precision when scaling */
   precision?: number;
+  /**
+   * Weighted progress: count items apart from the progress total.
+   * Pass the total item count, or true when it is unknown.
+   */
+  items?: boolean | number;
+  /** Label for the item count (e.g., 'files') */
+  itemUnit?: string;
 
   // Enrichment
   /** Add position to print() calls */
@@ -91,23 +176,35 @@ export interface ResolvedConfig {
   bar: BarFactory;
   unknown: SpinnerFactory;
   title: string;
+  stages: Required<Stage>[];
   file: NodeJS.WriteStream;
   forceTty: boolean | null;
   disable: boolean;
+  colors: ColorOptions;
+  colorLevel: ColorLevel | null;
   monitor: boolean | string;
   elapsed: boolean | string;
   stats: boolean | string;
   receipt: boolean;
   receiptText: boolean;
+  receiptSymbols: ReceiptSymbols;
+  widgets: string[];
+  layout: Layout | null;
+  sparkline: boolean;
   manual: boolean;
   ctrlC: boolean;
   dualLine: boolean;
   refreshSecs: number;
+  signal: AbortSignal | null;
+  checkpoint: string | null;
+  report: Required<ReportTarget> | null;
   calibrate: number;
   etaAlpha: number;
   unit: string;
   scale: "SI" | "IEC" | "SI2" | null;
   precision: number;
+  items: boolean | number;
+  itemUnit: string;
   enrichPrint: boolean;
   enrichOffset: number;
 }
@@ -121,23 +218,40 @@ const DEFAULT_CONFIG: ResolvedConfig = {
   bar: getBar("default"),
   unknown: getSpinner("default"),
   title: "",
+  stages: [],
   file: process.stdout,
   forceTty: null,
   disable: false,
+  colors: {},
+  colorLevel: null,
   monitor: true,
   elapsed: true,
   stats: true,
   receipt: true,
   receiptText: false,
+  receiptSymbols: {
+    success: "✓",
+    warning: "⚠",
+    failure: "✗",
+    cancelled: "⊘",
+  },
+  widgets: [],
+  layout: null,
+  sparkline: false,
   manual: false,
   ctrlC: true,
   dualLine: false,
   refreshSecs: 0,
+  signal: null,
+  checkpoint: null,
+  report: null,
   calibrate: 1_000_000,
   etaAlpha: 0.1,
   unit: "",
   scale: null,
   precision: 1,
+  items: false,
+  itemUnit: "",
   enrichPrint: true,
   enrichOffset: 0,
 };
@@ -168,41 +282,125 @@ export function resetGlobalConfig(): void {
   globalConfig = {};
 }
 
+const NDJSON_EXTENSION_REGEX = /\.(ndjson|jsonl)$/i;
+
+/**
+ * Normalize a report option, inferring the format from the file extension.
+ */
+function resolveReportTarget(
+  report: string | ReportTarget
+): Required<ReportTarget> {
+  const target: ReportTarget =
+    typeof report === "string" ? { path: report } : report;
+  return {
+    path: target.path,
+    format:
+      target.format ??
+      (NDJSON_EXTENSION_REGEX.test(target.path) ? "ndjson" : "json"),
+  };
+}
+
+/**
+ * Check every part color upfront, so a bad one fails when the bar is created.
+ */
+function resolveColors(colors: ColorOptions): ColorOptions {
+  for (const color of Object.values(colors)) {
+    if (color !== undefined) {
+      parseColor(color);
+    }
+  }
+  return colors;
+}
+
+/**
+ * Resolve the checkpoint path. Staged bars are not resumable, since a
+ * restarted job walks its stages from the first one again.
+ */
+function resolveCheckpoint(
+  checkpoint: string | undefined,
+  stages: unknown[] | undefined
+): string | null {
+  if (!checkpoint) {
+    return DEFAULT_CONFIG.checkpoint;
+  }
+  if (stages && stages.length > 0) {
+    warnOnce(
+      `Checkpoints are not supported with stages; not resuming from ${checkpoint}`
+    );
+    return null;
+  }
+  return checkpoint;
+}
+
 /**
- * Resolve options by merging defaults, global config, and local options.
+ * Resolve options by merging defaults, the configuration file (see
+ * config-file.ts), global config, and local options.
  */
 export function resolveConfig(options: AliveBarOptions = {}): ResolvedConfig {
-  const merged = { ...globalConfig, ...options };
+  const fileConfig = getFileConfig();
+  const merged = { ...fileConfig, ...globalConfig, ...options };
 
-  // Apply theme if specified
+  // The theme fills in what the options leave out
   let theme: Theme | undefined;
   if (merged.theme) {
     theme = getTheme(merged.theme);
   }
+  const layout = merged.layout ?? theme?.layout;
 
   return {
-    length: merged.length ?? DEFAULT_CONFIG.length,
+    length: merged.length ?? theme?.length ?? DEFAULT_CONFIG.length,
     spinner: getSpinner(merged.spinner ?? theme?.spinner ?? "default"),
     bar: getBar(merged.bar ?? theme?.bar ?? "default"),
     unknown: getSpinner(merged.unknown ?? theme?.unknown ?? "default"),
     title: merged.title ?? DEFAULT_CONFIG.title,
+    stages: merged.stages
+      ? merged.stages.map((stage) =>
+          typeof stage === "string"
+            ? { name: stage, weight: 1 }
+            : { name: stage.name, weight: stage.weight ?? 1 }
+        )
+      : DEFAULT_CONFIG.stages,
     file: merged.file ?? DEFAULT_CONFIG.file,
     forceTty: merged.forceTty ?? DEFAULT_CONFIG.forceTty,
     disable: merged.disable ?? DEFAULT_CONFIG.disable,
-    monitor: merged.monitor ?? DEFAULT_CONFIG.monitor,
-    elapsed: merged.elapsed ?? DEFAULT_CONFIG.elapsed,
-    stats: merged.stats ?? DEFAULT_CONFIG.stats,
+    colors: resolveColors({
+      ...theme?.colors,
+      ...fileConfig.colors,
+      ...globalConfig.colors,
+      ...options.colors,
+    }),
+    colorLevel: merged.colorLevel ?? DEFAULT_CONFIG.colorLevel,
+    monitor: merged.monitor ?? theme?.monitor ?? DEFAULT_CONFIG.monitor,
+    elapsed: merged.elapsed ?? theme?.elapsed ?? DEFAULT_CONFIG.elapsed,
+    stats: merged.stats ?? theme?.stats ?? DEFAULT_CONFIG.stats,
     receipt: merged.receipt ?? DEFAULT_CONFIG.receipt,
     receiptText: merged.receiptText ?? DEFAULT_CONFIG.receiptText,
+    receiptSymbols: {
+      ...DEFAULT_CONFIG.receiptSymbols,
+      ...theme?.receiptSymbols,
+      ...fileConfig.receiptSymbols,
+      ...globalConfig.receiptSymbols,
+      ...options.receiptSymbols,
+    },
+    widgets: merged.widgets ?? DEFAULT_CONFIG.widgets,
+    layout: layout ? parseLayout(layout) : DEFAULT_CONFIG.layout,
+    sparkline: merged.sparkline ?? DEFAULT_CONFIG.sparkline,
     manual: merged.manual ?? DEFAULT_CONFIG.manual,
     ctrlC: merged.ctrlC ?? DEFAULT_CONFIG.ctrlC,
-    dualLine: merged.dualLine ?? DEFAULT_CONFIG.dualLine,
+    dualLine: merged.dualLine ?? theme?.dualLine ?? DEFAULT_CONFIG.dualLine,
     refreshSecs: merged.refreshSecs ?? DEFAULT_CONFIG.refreshSecs,
+    signal: merged.signal ?? DEFAULT_CONFIG.signal,
+    checkpoint: resolveCheckpoint(merged.checkpoint, merged.stages),
+    report: merged.report
+      ? resolveReportTarget(merged.report)
+      : DEFAULT_CONFIG.report,
     calibrate: merged.calibrate ?? DEFAULT_CONFIG.calibrate,
     etaAlpha: merged.etaAlpha ?? DEFAULT_CONFIG.etaAlpha,
     unit: merged.unit ?? DEFAULT_CONFIG.unit,
     scale: merged.scale ?? DEFAULT_CONFIG.scale,
     precision: merged.precision ?? DEFAULT_CONFIG.precision,
+    items: merged.items ?? DEFAULT_CONFIG.items,
+    itemUnit: merged.itemUnit ?? DEFAULT_CONFIG.itemUnit,
     enrichPrint: merged.enrichPrint ?? DEFAULT_CONFIG.enrichPrint,
     enrichOffset: merged.enrichOffset ?? DEFAULT_CONFIG.enrichOffset,
   };
@@ -0,0 +1,193 @@
+/**
+ * Recursive file copy with progress.
+ *
+ * aliveCopy() walks the source upfront to total its bytes and files, then
+ * copies file by file: bytes drive the percent and ETA, while the monitor
+ * counts files.
+ */
+
+import { createReadStream, createWriteStream } from "node:fs";
+import {
+  lstat,
+  mkdir,
+  readdir,
+  readlink,
+  rmdir,
+  symlink,
+  unlink,
+} from "node:fs/promises";
+import { dirname, join, relative } from "node:path";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { AliveBarOptions } from "./configuration.js";
+import { aliveBar, type ProgressBar, type Receipt } from "./progress.js";
+
+/**
+ * Options for aliveCopy.
+ */
+export interface AliveCopyOptions extends AliveBarOptions {
+  /** Replace existing files at the destination (default: true) */
+  overwrite?: boolean;
+  /** Remove each source file once copied, and then emptied directories */
+  move?: boolean;
+  /** Copy only the entries this returns true for (source paths) */
+  filter?: (path: string) => boolean;
+}
+
+/**
+ * A file (or symlink) to copy.
+ */
+interface CopyEntry {
+  source: string;
+  target: string;
+  size: number;
+  mode: number;
+  isSymlink: boolean;
+}
+
+/**
+ * Collect the entries to copy and the directories to create, in walk order.
+ */
+async function walk(
+  source: string,
+  target: string,
+  filter: ((path: string) => boolean) | undefined,
+  entries: CopyEntry[],
+  directories: [string, string][]
+): Promise<void> {
+  if (filter && !filter(source)) {
+    return;
+  }
+
+  const stats = await lstat(source);
+  if (stats.isDirectory()) {
+    directories.push([source, target]);
+    for (const name of await readdir(source)) {
+      await walk(
+        join(source, name),
+        join(target, name),
+        filter,
+        entries,
+        directories
+      );
+    }
+  } else if (stats.isFile() || stats.isSymbolicLink()) {
+    entries.push({
+      source,
+      target,
+      size: stats.isFile() ? stats.size : 0,
+      mode: stats.mode,
+      isSymlink: stats.isSymbolicLink(),
+    });
+  }
+}
+
+/**
+ * Copy one entry, advancing the bar as bytes are written.
+ */
+async function copyEntry(
+  entry: CopyEntry,
+  bar: ProgressBar,
+  overwrite: boolean
+): Promise<void> {
+  if (entry.isSymlink) {
+    if (overwrite) {
+      await unlink(entry.target).catch(() => {
+        // Nothing to replace
+      });
+    }
+    await symlink(await readlink(entry.source), entry.target);
+    return;
+  }
+
+  // Bytes advance the bar without counting files, which finish separately
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bar(chunk.length, { items: 0 });
+      callback(null, chunk);
+    },
+  });
+
+  await pipeline(
+    createReadStream(entry.source),
+    counter,
+    createWriteStream(entry.target, {
+      flags: overwrite ? "w" : "wx",
+      mode: entry.mode,
+    })
+  );
+}
+
+/**
+ * Copy a file or directory tree, showing byte and file progress.
+ *
+ * A file that fails to copy does not stop the others: it is counted as failed
+ * and its error is kept in the receipt.
+ *
+ * @example
+ * const receipt = await aliveCopy('assets', 'dist/assets', {
+ *   title: 'Copying',
+ *   filter: (path) => !path.endsWith('.map'),
+ * });
+ * console.log(receipt.failed, receipt.errors);
+ */
+export async function aliveCopy(
+  source: string,
+  destination: string,
+  options: AliveCopyOptions = {}
+): Promise<Receipt> {
+  const { overwrite = true, move = false, filter, ...barOptions } = options;
+
+  const entries: CopyEntry[] = [];
+  const directories: [string, string][] = [];
+  await walk(source, destination, filter, entries, directories);
+
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  return aliveBar(
+    totalBytes,
+    {
+      items: entries.length,
+      itemUnit: "files",
+      unit: "B",
+      scale: "IEC",
+      ...barOptions,
+    },
+    async (bar) => {
+      await mkdir(dirname(destination), { recursive: true });
+      for (const [, target] of directories) {
+        await mkdir(target, { recursive: true });
+      }
+
+      for (const entry of entries) {
+        if (barOptions.signal?.aborted) {
+          break;
+        }
+
+        bar.text = relative(source, entry.source) || entry.source;
+        const before = bar.current;
+        try {
+          await copyEntry(entry, bar, overwrite);
+          if (move) {
+            await unlink(entry.source);
+          }
+          bar(0);
+        } catch (error) {
+          // Count the rest of the file, so the total still adds up
+          bar.fail(Math.max(0, entry.size - (bar.current - before)), error);
+        }
+      }
+
+      // Moved directories are removed once emptied, deepest first
+      if (move) {
+        for (const [directory] of directories.reverse()) {
+          await rmdir(directory).catch(() => {
+            // Still holds entries that failed or were filtered out
+          });
+        }
+      }
+
+      bar.text = "";
+    }
+  );
+}
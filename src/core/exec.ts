@@ -0,0 +1,178 @@
+/**
+ * Progress of spawned child processes.
+ *
+ * aliveExec() runs a command and feeds each line it prints through a parser.
+ * Lines that carry progress move the bar; anything else is printed above it.
+ * The exit code decides whether the receipt is a success.
+ */
+
+import { spawn } from "node:child_process";
+import type { Readable } from "node:stream";
+import type { AliveBarOptions } from "./configuration.js";
+import { aliveBar, type ProgressBar, type Receipt } from "./progress.js";
+
+/**
+ * Extract progress from a line of output, as a fraction (0-1), or null if
+ * the line carries none.
+ */
+export type OutputParser = (line: string) => number | null;
+
+const PERCENTAGE_REGEX = /(\d+(?:\.\d+)?)\s*%/;
+const FRACTION_REGEX = /(\d+)\s*\/\s*(\d+)/;
+// e.g. "  1,238,099  45%   1.23MB/s    0:00:12 (xfr#3, to-chk=10/20)"
+const RSYNC_REGEX = /^\s*[\d,.]+[KMGT]?\s+(\d{1,3})%\s/;
+const LINE_BREAK_REGEX = /\r\n|\r|\n/;
+
+/**
+ * Built-in output parsers.
+ */
+export const parsers = {
+  /** First "NN%" or "NN.N%" in the line */
+  percentage: (line: string): number | null => {
+    const match = PERCENTAGE_REGEX.exec(line);
+    return match ? Math.min(1, Number(match[1]) / 100) : null;
+  },
+  /** First "n/m" in the line */
+  fraction: (line: string): number | null => {
+    const match = FRACTION_REGEX.exec(line);
+    if (!match || Number(match[2]) === 0) {
+      return null;
+    }
+    return Math.min(1, Number(match[1]) / Number(match[2]));
+  },
+  /** rsync --progress / --info=progress2 lines */
+  rsync: (line: string): number | null => {
+    const match = RSYNC_REGEX.exec(line);
+    return match ? Math.min(1, Number(match[1]) / 100) : null;
+  },
+} satisfies Record<string, OutputParser>;
+
+/**
+ * Name of a built-in output parser.
+ */
+export type ParserName = keyof typeof parsers;
+
+/**
+ * Options for aliveExec.
+ */
+export interface AliveExecOptions extends AliveBarOptions {
+  /** Built-in parser name or custom parser (default: 'percentage') */
+  parse?: ParserName | OutputParser;
+  /** Working directory of the command */
+  cwd?: string;
+  /** Environment of the command (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Receipt of aliveExec, with how the process ended.
+ */
+export interface ExecReceipt extends Receipt {
+  /** Exit code, or null if killed by a signal or never started */
+  exitCode: number | null;
+  /** Signal that killed the process, if any */
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * Call onLine for every line of a stream, splitting on \r as well, since
+ * progress output usually rewrites a single line.
+ */
+function forEachLine(stream: Readable, onLine: (line: string) => void): void {
+  let pending = "";
+
+  stream.setEncoding("utf8");
+  stream.on("data", (chunk: string) => {
+    const lines = (pending + chunk).split(LINE_BREAK_REGEX);
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      onLine(line);
+    }
+  });
+  stream.on("end", () => {
+    if (pending) {
+      onLine(pending);
+    }
+  });
+}
+
+/**
+ * Run a command, tracking its progress from its output.
+ *
+ * Resolves once the process exits; a non-zero exit code gives a receipt with
+ * `success: false` rather than an error. Rejects only if the command cannot
+ * be started.
+ *
+ * @example
+ * const { success, exitCode } = await aliveExec(
+ *   'rsync',
+ *   ['-a', '--info=progress2', 'src/', 'backup/'],
+ *   { parse: 'rsync', title: 'Backup' }
+ * );
+ */
+export async function aliveExec(
+  command: string,
+  args: string[] = [],
+  options: AliveExecOptions = {}
+): Promise<ExecReceipt> {
+  const { parse = "percentage", cwd, env, ...barOptions } = options;
+  const parser = typeof parse === "function" ? parse : parsers[parse];
+
+  let handle: ProgressBar | null = null;
+  let started = false;
+  let exitCode: number | null = null;
+  let exitSignal: NodeJS.Signals | null = null;
+
+  const run = async (bar: ProgressBar): Promise<void> => {
+    handle = bar;
+    const child = spawn(command, args, {
+      cwd,
+      env,
+      signal: barOptions.signal ?? undefined,
+      stdio: ["inherit", "pipe", "pipe"],
+    });
+
+    const onLine = (line: string) => {
+      const fraction = parser(line);
+      if (fraction !== null) {
+        bar(fraction);
+      } else if (line.trim()) {
+        bar.print(line);
+      }
+    };
+    forEachLine(child.stdout, onLine);
+    forEachLine(child.stderr, onLine);
+
+    await new Promise<void>((resolve, reject) => {
+      child.on("spawn", () => {
+        started = true;
+      });
+      child.on("error", reject);
+      child.on("close", (code, signal) => {
+        exitCode = code;
+        exitSignal = signal;
+        resolve();
+      });
+    });
+
+    if (exitCode !== 0) {
+      throw new Error(
+        `${command} exited with ${exitCode === null ? exitSignal : `code ${exitCode}`}`
+      );
+    }
+
+    // A clean exit means the work is complete, whatever was printed last
+    bar(1);
+  };
+
+  try {
+    const receipt = await aliveBar(100, { ...barOptions, manual: true }, run);
+    return { ...receipt, exitCode, signal: exitSignal };
+  } catch (error) {
+    const receipt = (handle as ProgressBar | null)?.receipt;
+    if (receipt && (started || barOptions.signal?.aborted)) {
+      return { ...receipt, exitCode, signal: exitSignal };
+    }
+    throw error;
+  }
+}
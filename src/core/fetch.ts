@@ -0,0 +1,81 @@
+/**
+ * Download progress of HTTP responses.
+ *
+ * aliveFetch() wraps the body of a fetch() Response or a Node
+ * http.IncomingMessage in an aliveStream, sized from content-length.
+ */
+
+import type { IncomingMessage } from "node:http";
+import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import {
+  type AliveStream,
+  type AliveStreamOptions,
+  aliveStream,
+} from "./stream.js";
+
+/**
+ * Options for aliveFetch. The total defaults to the content-length header.
+ */
+export type AliveFetchOptions = Omit<
+  AliveStreamOptions,
+  "count" | "fileStats" | "headers"
+>;
+
+/**
+ * Whether fetch() decompresses the body, so content-length does not size it.
+ * Node's http module leaves bodies as they were sent.
+ */
+function isDecompressed(response: Response | IncomingMessage): boolean {
+  if (response instanceof Readable) {
+    return false;
+  }
+  const encoding = response.headers.get("content-encoding");
+  return encoding !== null && encoding.trim().toLowerCase() !== "identity";
+}
+
+/**
+ * Track the download of a response body.
+ *
+ * The returned stream yields the body unchanged, so it can be iterated with
+ * `for await` or piped. Without a content-length header the bar runs in
+ * unknown mode, as it does for compressed fetch() responses, whose
+ * content-length is the compressed size of a body fetch() decompresses.
+ *
+ * @example
+ * const response = await fetch(url);
+ * const file = createWriteStream('data.zip');
+ * await pipeline(aliveFetch(response, { title: 'Downloading' }), file);
+ *
+ * @example
+ * http.get(url, (res) => {
+ *   aliveFetch(res).pipe(createWriteStream('data.zip'));
+ * });
+ */
+export function aliveFetch(
+  response: Response | IncomingMessage,
+  options: AliveFetchOptions = {}
+): AliveStream {
+  let body: Readable;
+  if (response instanceof Readable) {
+    body = response;
+  } else if (response.body) {
+    body = Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+  } else {
+    body = Readable.from([]);
+  }
+
+  const headers = isDecompressed(response) ? undefined : response.headers;
+  const stream = aliveStream({ ...options, headers });
+
+  // Errors reach the bar through the stream, which reports them to readers
+  body.pipe(stream);
+  body.on("error", (error) => stream.destroy(error));
+  body.on("close", () => {
+    if (!body.readableEnded) {
+      stream.destroy(new Error("Response closed before it ended"));
+    }
+  });
+
+  return stream;
+}
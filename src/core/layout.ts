@@ -0,0 +1,167 @@
+/**
+ * Layout templates for the progress line.
+ *
+ * A template mixes literal text with placeholders, e.g.
+ * "{title:20} {bar} {percent:>4} {count}/{total} eta {eta}". A placeholder
+ * may carry a spec after a colon: an alignment (<, > or ^), a minimum width
+ * in cells, and a precision after a dot (decimals for numbers, maximum length
+ * for text). Braces are written literally as {{ and }}.
+ */
+
+import { getDisplayWidth } from "../utils/cells.js";
+
+/**
+ * A placeholder in a layout template.
+ */
+export interface LayoutField {
+  name: string;
+  align: "<" | ">" | "^";
+  width: number | null;
+  precision: number | null;
+}
+
+/**
+ * Literal text or a placeholder.
+ */
+export type LayoutToken = string | LayoutField;
+
+/**
+ * A parsed layout: the left part, and a part aligned to the right edge.
+ */
+export interface Layout {
+  left: LayoutToken[];
+  right: LayoutToken[];
+}
+
+/**
+ * Layout option: a template, or left and right-aligned templates.
+ */
+export type LayoutOption = string | { left: string; right?: string };
+
+const FIELD_REGEX = /^([A-Za-z_][\w-]*)(?::([<>^])?(\d+)?(?:\.(\d+))?)?$/;
+
+/**
+ * Parse one placeholder body, e.g. "percent:>4.1".
+ */
+function parseField(body: string, template: string): LayoutField {
+  const match = FIELD_REGEX.exec(body);
+  if (!match) {
+    throw new Error(`Invalid placeholder {${body}} in layout "${template}"`);
+  }
+
+  const [, name, align, width, precision] = match;
+  return {
+    name,
+    align: (align as LayoutField["align"] | undefined) ?? "<",
+    width: width === undefined ? null : Number(width),
+    precision: precision === undefined ? null : Number(precision),
+  };
+}
+
+/**
+ * Parse a template into literal text and placeholders.
+ */
+export function parseTemplate(template: string): LayoutToken[] {
+  const tokens: LayoutToken[] = [];
+  let literal = "";
+  let i = 0;
+
+  while (i < template.length) {
+    const char = template[i];
+    const next = template[i + 1];
+
+    if ((char === "{" && next === "{") || (char === "}" && next === "}")) {
+      literal += char;
+      i += 2;
+    } else if (char === "{") {
+      const end = template.indexOf("}", i);
+      if (end === -1) {
+        throw new Error(`Unclosed placeholder in layout "${template}"`);
+      }
+      if (literal) {
+        tokens.push(literal);
+        literal = "";
+      }
+      tokens.push(parseField(template.slice(i + 1, end), template));
+      i = end + 1;
+    } else if (char === "}") {
+      throw new Error(`Unmatched "}" in layout "${template}" (use "}}")`);
+    } else {
+      literal += char;
+      i++;
+    }
+  }
+
+  if (literal) {
+    tokens.push(literal);
+  }
+  return tokens;
+}
+
+/**
+ * Parse a layout option.
+ */
+export function parseLayout(option: LayoutOption): Layout {
+  if (typeof option === "string") {
+    return { left: parseTemplate(option), right: [] };
+  }
+  return {
+    left: parseTemplate(option.left),
+    right: option.right ? parseTemplate(option.right) : [],
+  };
+}
+
+/**
+ * Pad a value to a field's width, following its alignment.
+ */
+function pad(value: string, field: LayoutField): string {
+  const missing = (field.width ?? 0) - getDisplayWidth(value);
+  if (missing <= 0) {
+    return value;
+  }
+
+  if (field.align === ">") {
+    return " ".repeat(missing) + value;
+  }
+  if (field.align === "^") {
+    const before = Math.floor(missing / 2);
+    return " ".repeat(before) + value + " ".repeat(missing - before);
+  }
+  return value + " ".repeat(missing);
+}
+
+/**
+ * Render tokens, resolving each placeholder to its (already precise) value.
+ */
+export function renderTokens(
+  tokens: LayoutToken[],
+  resolve: (field: LayoutField) => string
+): string {
+  return tokens
+    .map((token) =>
+      typeof token === "string" ? token : pad(resolve(token), token)
+    )
+    .join("");
+}
+
+/**
+ * Render a layout to a line of the given width, pushing the right part
+ * against the right edge (with at least one space between the parts).
+ */
+export function renderLayout(
+  layout: Layout,
+  width: number,
+  resolve: (field: LayoutField) => string
+): string {
+  const left = renderTokens(layout.left, resolve).trimEnd();
+  if (layout.right.length === 0) {
+    return left;
+  }
+
+  const right = renderTokens(layout.right, resolve).trim();
+  const gap = Math.max(
+    1,
+    width - getDisplayWidth(left) - getDisplayWidth(right)
+  );
+  return left + " ".repeat(gap) + right;
+}
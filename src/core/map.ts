@@ -0,0 +1,131 @@
+/**
+ * Concurrent async mapping with progress.
+ *
+ * aliveMap() runs an async function over items with a concurrency limit,
+ * showing completed, in-flight and failed counts on a single bar.
+ */
+
+import {
+  type AliveItOptions,
+  detectLength,
+  type Receipt,
+  startIterationBar,
+} from "./progress.js";
+
+/**
+ * Options for aliveMap.
+ */
+export interface AliveMapOptions<T> extends AliveItOptions<T> {
+  /**
+   * Maximum number of items processed at once (default: 4). Infinity runs
+   * every item at once, and needs items of known length.
+   */
+  concurrency?: number;
+}
+
+/**
+ * Receipt of aliveMap, carrying the results in input order.
+ * Items that failed leave their slot undefined; see `errors`.
+ */
+export interface MapReceipt<R> extends Receipt {
+  results: (R | undefined)[];
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Number of workers to start: the concurrency, but no more than the items.
+ */
+function countWorkers(concurrency: number, length: number | null): number {
+  if (
+    !(
+      Number.isInteger(concurrency) || concurrency === Number.POSITIVE_INFINITY
+    ) ||
+    concurrency < 1
+  ) {
+    throw new RangeError(
+      `concurrency must be a positive integer or Infinity, got ${concurrency}`
+    );
+  }
+  if (length === null) {
+    if (concurrency === Number.POSITIVE_INFINITY) {
+      throw new RangeError(
+        "concurrency: Infinity needs items of known length (an array, or anything with a length or size)"
+      );
+    }
+    return concurrency;
+  }
+  return Math.max(1, Math.min(concurrency, length));
+}
+
+/**
+ * Map items through an async function with a concurrency limit.
+ *
+ * A failing item does not stop the others: it is counted as failed and its
+ * error is kept in the receipt.
+ *
+ * @example
+ * const { results, failed } = await aliveMap(
+ *   urls,
+ *   async (url) => fetch(url).then((res) => res.json()),
+ *   { concurrency: 8, title: 'Fetching' }
+ * );
+ */
+export async function aliveMap<T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  fn: (item: T, index: number) => Promise<R> | R,
+  options: AliveMapOptions<T> = {}
+): Promise<MapReceipt<R>> {
+  const { concurrency = DEFAULT_CONCURRENCY, ...itOptions } = options;
+  const workerCount = countWorkers(concurrency, detectLength(items));
+
+  const { bar, done } = startIterationBar(items, itOptions);
+  const { signal, weight } = itOptions;
+
+  const iterator =
+    Symbol.asyncIterator in items
+      ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+      : (items as Iterable<T>)[Symbol.iterator]();
+  const results: (R | undefined)[] = [];
+  let nextIndex = 0;
+
+  // Each worker pulls the next item as soon as it is free
+  const worker = async (): Promise<void> => {
+    while (!signal?.aborted) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+
+      const item = next.value;
+      const index = nextIndex++;
+      const itemWeight = weight ? weight(item) : 1;
+      results[index] = undefined;
+
+      bar.inFlight++;
+      try {
+        results[index] = await fn(item, index);
+        bar(itemWeight);
+      } catch (error) {
+        bar.fail(itemWeight, error);
+      } finally {
+        bar.inFlight--;
+      }
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < workerCount; i++) {
+    workers.push(worker());
+  }
+
+  try {
+    await Promise.all(workers);
+  } catch (error) {
+    // The source iterable itself failed: release the bar and rethrow
+    done();
+    throw error;
+  }
+
+  return { ...done(), results };
+}
@@ -0,0 +1,358 @@
+/**
+ * Multi-bar container for rendering several concurrent progress bars.
+ *
+ * Each bar added to a MultiBar keeps its own counters, timer and widgets,
+ * but drawing is owned by the container: all bars are redrawn together as a
+ * stacked block by a single refresh loop, so they never overwrite each other.
+ */
+
+import {
+  clearLines,
+  countRows,
+  createTerminal,
+  onResize,
+  type TerminalWriter,
+} from "../utils/terminal/index.js";
+import { calculateRefreshInterval, getFixedInterval } from "./calibration.js";
+import {
+  type AliveBarOptions,
+  type ResolvedConfig,
+  resolveConfig,
+} from "./configuration.js";
+import {
+  installHooks,
+  pauseHooks,
+  resumeHooks,
+  uninstallHooks,
+} from "./hook-manager.js";
+import {
+  countLines,
+  createHandler,
+  createState,
+  onAbort,
+  type ProgressBar,
+  type ProgressState,
+  type Receipt,
+  renderFrame,
+  renderReceipt,
+  resize,
+  settle,
+} from "./progress.js";
+
+/**
+ * A bar tracked by the container.
+ */
+interface MultiBarEntry {
+  state: ProgressState;
+  bar: ProgressBar;
+  /** Final receipt line, kept in the block once the bar is done */
+  receiptLine: string | null;
+  stopWatching: () => void;
+}
+
+/**
+ * Container that renders several progress bars as one stacked block.
+ *
+ * @example
+ * const multi = new MultiBar({ title: 'Downloads' });
+ * const a = multi.add(100, { title: 'a.zip' });
+ * const b = multi.add(250, { title: 'b.zip' });
+ *
+ * await Promise.all([download('a.zip', a.bar), download('b.zip', b.bar)]);
+ * a.done();
+ * b.done();
+ * multi.done();
+ */
+export class MultiBar {
+  private readonly options: AliveBarOptions;
+  private readonly config: ResolvedConfig;
+  private readonly terminal: TerminalWriter;
+  private readonly entries: MultiBarEntry[] = [];
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private sigintHandler: (() => void) | null = null;
+  private readonly stopWatching: (() => void) | null = null;
+  private readonly stopResizing: (() => void) | null = null;
+  private lastBlock = "";
+  private lastLineCount = 0;
+  private isRunning = true;
+
+  constructor(options: AliveBarOptions = {}) {
+    this.options = options;
+    this.config = resolveConfig(options);
+    this.terminal = createTerminal({
+      stream: this.config.file,
+      forceTty: this.config.forceTty,
+      disable: this.config.disable,
+    });
+
+    // Install hooks for console interception
+    if (this.config.enrichPrint && this.terminal.isInteractive()) {
+      installHooks({
+        enrichPrint: this.config.enrichPrint,
+        enrichOffset: this.config.enrichOffset,
+        printFn: (text: string) => this.printLine(text),
+      });
+    }
+
+    this.terminal.hideCursor();
+    this.startRefreshLoop();
+
+    // Setup Ctrl+C handler
+    if (this.config.ctrlC) {
+      this.sigintHandler = () => {
+        this.done();
+        process.exit(130);
+      };
+      process.on("SIGINT", this.sigintHandler);
+    }
+
+    // Redraw to the new width as soon as the terminal is resized
+    if (this.terminal.isInteractive()) {
+      this.stopResizing = onResize(this.config.file, () => this.reflow());
+    }
+
+    // Cancel every running bar when the container's signal aborts
+    this.stopWatching = onAbort(this.config.signal, () => {
+      for (const entry of this.entries) {
+        if (entry.state.isRunning) {
+          entry.state.cancelled = true;
+        }
+      }
+      this.done();
+    });
+  }
+
+  /**
+   * Add a bar to the block. Options are merged over the container's own.
+   */
+  add(
+    total: number | null = null,
+    options: AliveBarOptions = {}
+  ): { bar: ProgressBar; done: () => Receipt } {
+    if (!this.isRunning) {
+      throw new Error("Cannot add a bar to a MultiBar that is already done");
+    }
+
+    const config = resolveConfig({ ...this.options, ...options });
+    const state = createState(total, config, this.terminal, true);
+    state.printAbove = (text) => this.printLine(text);
+    const entry: MultiBarEntry = {
+      state,
+      bar: createHandler(state),
+      receiptLine: null,
+      stopWatching: () => {
+        // Replaced below once the signal is watched
+      },
+    };
+    this.entries.push(entry);
+
+    entry.stopWatching = onAbort(config.signal, () => {
+      state.cancelled = true;
+      this.finish(entry);
+    });
+    this.render();
+
+    const done = (): Receipt => {
+      this.finish(entry);
+      return state.receipt as Receipt;
+    };
+
+    return { bar: entry.bar, done };
+  }
+
+  /**
+   * Remove a bar from the block, finishing it first if still running.
+   */
+  remove(bar: ProgressBar): void {
+    const index = this.entries.findIndex((entry) => entry.bar === bar);
+    if (index === -1) {
+      return;
+    }
+
+    const [entry] = this.entries.splice(index, 1);
+    entry.stopWatching();
+    if (entry.state.isRunning) {
+      settle(entry.state);
+    }
+    this.render();
+  }
+
+  /**
+   * Number of bars currently in the block.
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Finish every remaining bar, draw the final block and release the terminal.
+   */
+  done(): Receipt[] {
+    if (!this.isRunning) {
+      return this.entries.map((entry) => entry.state.receipt as Receipt);
+    }
+
+    for (const entry of this.entries) {
+      if (entry.state.isRunning) {
+        this.finish(entry);
+      }
+    }
+
+    this.isRunning = false;
+    this.stopRefreshLoop();
+    this.stopWatching?.();
+    this.stopResizing?.();
+    uninstallHooks();
+
+    if (this.sigintHandler) {
+      process.off("SIGINT", this.sigintHandler);
+      this.sigintHandler = null;
+    }
+
+    // Leave the final block on screen
+    pauseHooks();
+    clearLines(this.terminal, this.lastLineCount);
+    if (this.terminal.isInteractive()) {
+      for (const line of this.buildLines()) {
+        this.terminal.writeLine(line);
+      }
+    }
+    this.lastLineCount = 0;
+    this.terminal.showCursor();
+    resumeHooks();
+
+    return this.entries.map((entry) => entry.state.receipt as Receipt);
+  }
+
+  /**
+   * Settle a bar and freeze its receipt line in the block.
+   */
+  private finish(entry: MultiBarEntry): void {
+    entry.stopWatching();
+    if (!entry.state.isRunning) {
+      return;
+    }
+
+    const receipt = settle(entry.state);
+    if (entry.state.config.receipt) {
+      entry.receiptLine = renderReceipt(entry.state, receipt);
+
+      // Without animations, receipts are printed as soon as bars finish
+      if (!this.terminal.isInteractive()) {
+        this.terminal.writeLine(entry.receiptLine);
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * Build the lines of the block, one entry per bar.
+   */
+  private buildLines(): string[] {
+    const lines: string[] = [];
+
+    for (const entry of this.entries) {
+      if (entry.state.isRunning) {
+        lines.push(renderFrame(entry.state));
+      } else if (entry.receiptLine !== null) {
+        lines.push(entry.receiptLine);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Redraw the whole block in place.
+   */
+  private render(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    pauseHooks();
+
+    const block = this.buildLines().join("\n");
+    clearLines(this.terminal, this.lastLineCount);
+    this.terminal.write(block);
+    this.lastBlock = block;
+    this.lastLineCount = block ? countLines(block) : 0;
+
+    resumeHooks();
+  }
+
+  /**
+   * Refit every bar to the resized terminal and redraw the block, clearing
+   * all the rows its previous lines wrapped onto.
+   */
+  private reflow(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    for (const entry of this.entries) {
+      resize(entry.state);
+    }
+    this.lastLineCount = this.lastBlock
+      ? countRows(this.lastBlock, this.terminal.getWidth())
+      : 0;
+    this.render();
+  }
+
+  /**
+   * Print a line above the block while preserving it.
+   */
+  private printLine(text: string): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    pauseHooks();
+
+    clearLines(this.terminal, this.lastLineCount);
+    this.terminal.writeLine(text);
+    if (this.lastBlock) {
+      this.terminal.write(this.lastBlock);
+    }
+
+    resumeHooks();
+  }
+
+  /**
+   * Start the shared refresh loop, paced by the fastest running bar.
+   */
+  private startRefreshLoop(): void {
+    const fixedInterval = getFixedInterval(this.config.refreshSecs);
+
+    const refresh = () => {
+      if (!this.isRunning) {
+        return;
+      }
+
+      this.render();
+
+      let rate = 0;
+      for (const entry of this.entries) {
+        if (entry.state.isRunning) {
+          rate = Math.max(rate, entry.state.etaCalculator.getRate());
+        }
+      }
+      const interval =
+        fixedInterval ?? calculateRefreshInterval(rate, this.config.calibrate);
+
+      this.refreshTimer = setTimeout(refresh, interval);
+    };
+
+    this.refreshTimer = setTimeout(refresh, fixedInterval ?? 50);
+  }
+
+  /**
+   * Stop the shared refresh loop.
+   */
+  private stopRefreshLoop(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
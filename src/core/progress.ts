@@ -6,23 +6,47 @@
  * - aliveIt(): Auto-iterating progress wrapper
  */
 
-import type { Bar } from "../animations/bars.js";
+import type { Bar, BarColors } from "../animations/bars.js";
 import type { Spinner } from "../animations/spinners.js";
-import { getStringWidth } from "../utils/cells.js";
-import { cursor } from "../utils/colors.js";
 import {
+  getDisplayWidth,
+  joinCells,
+  toCells,
+  truncateCells,
+  truncateToWidth,
+} from "../utils/cells.js";
+import {
+  type ColorLevel,
+  detectColorLevel,
+  paint,
+} from "../utils/color-support.js";
+import { warnOnce } from "../utils/registry.js";
+import {
+  clearLines,
+  countRows,
   createTerminal,
+  onResize,
   type TerminalWriter,
 } from "../utils/terminal/index.js";
 import {
   ETACalculator,
   formatDuration,
   formatRate,
+  type RateStats,
+  type Sample,
+  SampleHistory,
   Timer,
 } from "../utils/timing.js";
 import { calculateRefreshInterval, getFixedInterval } from "./calibration.js";
+import {
+  CHECKPOINT_INTERVAL_MS,
+  readCheckpoint,
+  removeCheckpoint,
+  writeCheckpoint,
+} from "./checkpoint.js";
 import {
   type AliveBarOptions,
+  type ReportTarget,
   type ResolvedConfig,
   resolveConfig,
 } from "./configuration.js";
@@ -33,6 +57,14 @@ import {
   uninstallHooks,
   updatePosition,
 } from "./hook-manager.js";
+import { type LayoutField, renderLayout } from "./layout.js";
+import { serializableOptions, writeReport } from "./report.js";
+import { renderWidget, type WidgetContext } from "./widgets.js";
+import {
+  createWorkerHandle,
+  type SharedCounts,
+  type WorkerProgressHandle,
+} from "./worker.js";
 
 /**
  * Receipt data returned after progress completion.
@@ -41,23 +73,64 @@ export interface Receipt {
   total: number | null;
   count: number;
   percent: number;
+  /** Elapsed seconds, including sessions resumed from a checkpoint */
   elapsed: number;
+  /** Elapsed seconds of this session only */
+  sessionElapsed: number;
   rate: number;
   success: boolean;
   overflow: boolean;
   underflow: boolean;
+  /** Number of items processed (differs from count when weighted) */
+  items: number;
+  /** Number of items that failed */
+  failed: number;
+  /** Errors reported along with failed items */
+  errors: unknown[];
+  /** The bar was cancelled through its AbortSignal */
+  cancelled: boolean;
+  /** Receipts of child bars, in the order they finished */
+  children: Receipt[];
+  /** Stages the bar went through, with their durations in seconds */
+  stages: { name: string; elapsed: number }[];
+  /** Rates observed during this session, or null if too short to tell */
+  rateStats: RateStats | null;
+  /** Seconds spent without progress, in gaps longer than a second */
+  stalled: number;
+  /** Seconds until the first item of this session, or null if none */
+  timeToFirst: number | null;
+  /** Bounded history of this session's progress */
+  samples: Sample[];
 }
 
 /**
  * Progress bar handler returned by aliveBar.
  */
 export interface ProgressBar {
-  /** Increment the progress counter */
-  (count?: number, options?: { skipped?: boolean }): void;
+  /**
+   * Increment the progress counter. With weighted progress (the `items`
+   * option), count is the weight and each call also counts one item.
+   */
+  (
+    count?: number,
+    options?: { skipped?: boolean; failed?: boolean; items?: number }
+  ): void;
 
   /** Current progress count */
   current: number;
 
+  /** Number of items processed (weighted progress) */
+  items: number;
+
+  /** Count failed items (they still advance the bar), with optional error */
+  fail(count?: number, error?: unknown): void;
+
+  /** Number of failed items so far */
+  failed: number;
+
+  /** Get/set the number of items currently in flight (shown by the monitor) */
+  inFlight: number;
+
   /** Get/set situational message */
   text: string;
   /** Set situational message (method form) */
@@ -65,9 +138,21 @@ export interface ProgressBar {
 
   /** Get/set title */
   title: string;
+  /** User data passed to registered widgets */
+  data: Record<string, unknown>;
   /** Set title (method form) */
   setTitle(title: string): void;
 
+  /** Print a line above the bar, as is */
+  print(text: string): void;
+
+  /**
+   * Move to a declared stage, with its own total. Counters restart for the
+   * stage, while percent and ETA stay weighted across all stages. Naming the
+   * current stage only sets its total; stages cannot be revisited.
+   */
+  stage(name: string, total?: number | null): void;
+
   /** Pause processing (returns a function to resume) */
   pause(): () => void;
 
@@ -85,31 +170,82 @@ export interface ProgressBar {
 
   /** Get receipt data */
   receipt: Receipt | null;
+
+  /**
+   * Create a nested bar rendered indented under this one.
+   * Each child stands for one unit of its parent: its fractional completion
+   * rolls up into the parent's progress, and done() advances the parent by 1.
+   * It draws to its parent's stream at its parent's color level.
+   */
+  child(
+    total?: number | null,
+    options?: AliveBarOptions
+  ): { bar: ProgressBar; done: () => Receipt };
+
+  /**
+   * Create a handle that worker threads pass to workerProgress() to report
+   * into this bar.
+   */
+  shareWithWorker(): WorkerProgressHandle;
 }
 
 /**
  * Internal state for the progress bar.
  */
-interface ProgressState {
+export interface ProgressState {
   config: ResolvedConfig;
   total: number | null;
   current: number;
   text: string;
   title: string;
+  data: Record<string, unknown>;
   terminal: TerminalWriter;
+  /** Length the bar and spinners are drawn at, fitted to the terminal */
+  length: number;
+  colorLevel: ColorLevel;
   spinner: Spinner;
   bar: Bar;
   unknownSpinner: Spinner;
   timer: Timer;
+  /** Elapsed seconds of earlier sessions, when resumed from a checkpoint */
+  priorElapsed: number;
+  lastCheckpointAt: number;
   etaCalculator: ETACalculator;
+  /** ETA over the weighted progress of all stages */
+  overallEta: ETACalculator;
+  stageIndex: number;
+  stageStartedAt: number;
+  stageDurations: { name: string; elapsed: number }[];
+  samples: SampleHistory;
+  /** Items processed this session, for throughput statistics */
+  processed: number;
+  firstItemAt: number | null;
+  lastProgressAt: number;
+  stalled: number;
   refreshInterval: NodeJS.Timeout | null;
   isRunning: boolean;
   isPaused: boolean;
   lastFrame: string;
-  lastWasDualLine: boolean;
+  lastLineCount: number;
   receipt: Receipt | null;
   skipped: number;
+  items: number;
+  failed: number;
+  errors: unknown[];
+  inFlight: number;
   printBuffer: string[];
+  /** Drawn by a container (e.g. MultiBar) rather than by the bar itself */
+  managed: boolean;
+  /** Prints above the container drawing a managed bar */
+  printAbove: ((text: string) => void) | null;
+  parent: ProgressState | null;
+  children: ProgressState[];
+  childReceipts: Receipt[];
+  /** Fold in progress reported by worker threads */
+  workerSources: (() => void)[];
+  /** The work driving the bar threw before it could finish */
+  crashed: boolean;
+  cancelled: boolean;
 }
 
 /**
@@ -146,156 +282,669 @@ function formatNumber(
 }
 
 /**
- * Build the widgets part of the display.
+ * Shortest length a bar is shrunk to on narrow terminals.
  */
-function buildWidgets(state: ProgressState): string {
-  const { config, total, current, timer, etaCalculator, skipped } = state;
-  const parts: string[] = [];
+const MIN_LENGTH = 10;
 
-  // Monitor widget: count/total [percent]
-  if (config.monitor) {
-    const actualCurrent = current - skipped;
-    const percent = total ? Math.min(100, (actualCurrent / total) * 100) : 0;
-
-    if (typeof config.monitor === "string") {
-      // Custom format
-      let format = config.monitor;
-      format = format.replace(
-        "{count}",
-        formatNumber(actualCurrent, config.scale, config.precision, config.unit)
-      );
-      format = format.replace(
-        "{total}",
-        total
-          ? formatNumber(total, config.scale, config.precision, config.unit)
-          : "?"
-      );
-      format = format.replace("{percent}", `${percent.toFixed(0)}%`);
-      parts.push(format);
-    } else {
-      // Default format
-      const countStr = formatNumber(
-        actualCurrent,
-        config.scale,
-        config.precision,
-        config.unit
-      );
-      const totalStr = total
-        ? formatNumber(total, config.scale, config.precision, config.unit)
-        : "?";
-      parts.push(`${countStr}/${totalStr} [${percent.toFixed(0)}%]`);
+/**
+ * Fit the configured length to the terminal: the bar never takes more than
+ * half of its width, nor shrinks below MIN_LENGTH (unless configured so).
+ */
+function fitLength(length: number, width: number): number {
+  return Math.min(length, Math.max(MIN_LENGTH, Math.floor(width / 2)));
+}
+
+/**
+ * Colors of the bar itself, at the state's color level.
+ */
+function barColors(config: ResolvedConfig, level: ColorLevel): BarColors {
+  return {
+    level,
+    fill: config.colors.bar,
+    background: config.colors.background,
+  };
+}
+
+/**
+ * Refit the bar and spinners of a bar, and of its children, to the current
+ * terminal width.
+ */
+export function resize(state: ProgressState): void {
+  const { config } = state;
+  const length = fitLength(config.length, state.terminal.getWidth());
+
+  if (length !== state.length) {
+    state.length = length;
+    state.spinner = config.spinner(length);
+    state.bar = config.bar(length, barColors(config, state.colorLevel));
+    state.unknownSpinner = config.unknown(length);
+  }
+
+  for (const child of state.children) {
+    resize(child);
+  }
+}
+
+/**
+ * Create the internal state for a bar.
+ */
+export function createState(
+  total: number | null,
+  config: ResolvedConfig,
+  terminal: TerminalWriter,
+  managed = false
+): ProgressState {
+  const length = fitLength(config.length, terminal.getWidth());
+  const colorLevel = config.colorLevel ?? detectColorLevel(config.file);
+  const state: ProgressState = {
+    config,
+    total,
+    current: 0,
+    text: "",
+    title: config.title,
+    data: {},
+    terminal,
+    length,
+    colorLevel,
+    spinner: config.spinner(length),
+    bar: config.bar(length, barColors(config, colorLevel)),
+    unknownSpinner: config.unknown(length),
+    timer: new Timer(),
+    priorElapsed: 0,
+    lastCheckpointAt: Date.now(),
+    etaCalculator: new ETACalculator(config.etaAlpha),
+    overallEta: new ETACalculator(config.etaAlpha),
+    stageIndex: 0,
+    stageStartedAt: 0,
+    stageDurations: [],
+    samples: new SampleHistory(),
+    processed: 0,
+    firstItemAt: null,
+    lastProgressAt: 0,
+    stalled: 0,
+    refreshInterval: null,
+    isRunning: true,
+    isPaused: false,
+    lastFrame: "",
+    lastLineCount: 0,
+    receipt: null,
+    skipped: 0,
+    items: 0,
+    failed: 0,
+    errors: [],
+    inFlight: 0,
+    printBuffer: [],
+    managed,
+    printAbove: null,
+    parent: null,
+    children: [],
+    childReceipts: [],
+    workerSources: [],
+    crashed: false,
+    cancelled: false,
+  };
+
+  if (config.checkpoint) {
+    resumeFromCheckpoint(state, config.checkpoint);
+  }
+  state.samples.record(0, 0);
+
+  return state;
+}
+
+/**
+ * Resume a fresh state from its checkpoint, if one matches its total.
+ */
+function resumeFromCheckpoint(state: ProgressState, path: string): void {
+  const saved = readCheckpoint(path);
+  if (!saved || saved.total !== state.total) {
+    return;
+  }
+
+  state.current = saved.current;
+  state.skipped = saved.skipped;
+  state.items = saved.items;
+  state.failed = saved.failed;
+  state.priorElapsed = saved.elapsed;
+  state.etaCalculator.seed(saved.current - saved.skipped, saved.rate);
+}
+
+/**
+ * Save a state's progress to its checkpoint file.
+ */
+function saveCheckpoint(state: ProgressState, path: string): void {
+  state.lastCheckpointAt = Date.now();
+
+  // Checkpointing is best-effort: never break the work being tracked
+  try {
+    writeCheckpoint(path, {
+      total: state.total,
+      current: state.current,
+      skipped: state.skipped,
+      items: state.items,
+      failed: state.failed,
+      elapsed: totalElapsed(state),
+      rate: state.etaCalculator.getRate(),
+    });
+  } catch {
+    // Ignore unwritable checkpoint paths
+  }
+}
+
+/**
+ * Write the report of a settled bar.
+ */
+function saveReport(
+  state: ProgressState,
+  target: Required<ReportTarget>
+): void {
+  // Like checkpoints, reports never break the work being tracked, but a
+  // missing report is worth a warning
+  try {
+    writeReport(target, {
+      title: state.title,
+      text: state.text,
+      finishedAt: new Date().toISOString(),
+      options: serializableOptions(state.config),
+      receipt: state.receipt,
+    });
+  } catch (error) {
+    warnOnce(
+      `Could not write the report to ${target.path}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Elapsed seconds across all sessions of a bar.
+ */
+function totalElapsed(state: ProgressState): number {
+  return state.priorElapsed + state.timer.elapsed();
+}
+
+/**
+ * Effective progress of a bar: its own count plus the fractional completion
+ * of any running children, each of which stands for one unit.
+ */
+function effectiveCount(state: ProgressState): number {
+  let count = state.current - state.skipped;
+
+  for (const child of state.children) {
+    if (child.total) {
+      count += Math.min(1, Math.max(0, effectiveCount(child) / child.total));
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Gaps without progress longer than this count as stalled time.
+ */
+const STALL_SECS = 1;
+
+/**
+ * Account processed items for the throughput statistics.
+ */
+function recordProgress(state: ProgressState, count: number): void {
+  const now = state.timer.elapsed();
+
+  if (state.firstItemAt === null) {
+    state.firstItemAt = now;
+  } else if (now - state.lastProgressAt > STALL_SECS) {
+    state.stalled += now - state.lastProgressAt;
+  }
+
+  state.lastProgressAt = now;
+  state.processed += count;
+  state.samples.record(now, state.processed);
+}
+
+/**
+ * Fraction of the work done (0-1), weighted across stages if any.
+ * Unknown totals report 0.
+ */
+function progressFraction(state: ProgressState): number {
+  const { total, config } = state;
+  const stageFraction = total ? Math.min(1, effectiveCount(state) / total) : 0;
+
+  if (config.stages.length === 0) {
+    return stageFraction;
+  }
+
+  let totalWeight = 0;
+  let doneWeight = 0;
+  for (const [index, stage] of config.stages.entries()) {
+    totalWeight += stage.weight;
+    if (index < state.stageIndex) {
+      doneWeight += stage.weight;
+    } else if (index === state.stageIndex) {
+      doneWeight += stage.weight * stageFraction;
     }
   }
 
+  return totalWeight > 0 ? doneWeight / totalWeight : 0;
+}
+
+/**
+ * Estimate the remaining seconds, across all stages if any.
+ */
+function computeEta(state: ProgressState): number {
+  if (!state.total) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  // Always feed the per-stage calculator, which drives the rate widget
+  const eta = state.etaCalculator.update(effectiveCount(state), state.total);
+  if (state.config.stages.length === 0) {
+    return eta;
+  }
+
+  return state.overallEta.update(progressFraction(state), 1);
+}
+
+/**
+ * Title with the current stage, e.g. "Deploy verify (3/4)".
+ */
+function displayTitle(state: ProgressState): string {
+  const { stages } = state.config;
+  if (stages.length === 0) {
+    return state.title;
+  }
+
+  const stage = stages[state.stageIndex];
+  const stageStr = `${stage.name} (${state.stageIndex + 1}/${stages.length})`;
+  return state.title ? `${state.title} ${stageStr}` : stageStr;
+}
+
+/**
+ * Format the item count of weighted progress (e.g. "12/40 files, "),
+ * or nothing when progress is not weighted.
+ */
+function formatItems(config: ResolvedConfig, items: number): string {
+  if (config.items === false) {
+    return "";
+  }
+
+  const totalStr = config.items === true ? "?" : String(config.items);
+  const unitStr = config.itemUnit ? ` ${config.itemUnit}` : "";
+  return `${items}/${totalStr}${unitStr}, `;
+}
+
+/**
+ * Format the default monitor widget: count/total [percent], plus items in
+ * flight and failures.
+ */
+function formatMonitor(state: ProgressState): string {
+  const { config, total, failed, inFlight } = state;
+  const actualCurrent = effectiveCount(state);
+  const percent = progressFraction(state) * 100;
+
+  const countStr = formatNumber(
+    actualCurrent,
+    config.scale,
+    config.precision,
+    config.unit
+  );
+  const totalStr = total
+    ? formatNumber(total, config.scale, config.precision, config.unit)
+    : "?";
+  const itemsStr = formatItems(config, state.items);
+  const inFlightStr = inFlight > 0 ? ` ${inFlight}⟳` : "";
+  const failedStr =
+    failed > 0 ? ` ${failed}${config.receiptSymbols.failure}` : "";
+
+  return `${itemsStr}${countStr}/${totalStr} [${percent.toFixed(0)}%]${inFlightStr}${failedStr}`;
+}
+
+/**
+ * Monitor widget: count/total [percent], or its custom format.
+ */
+function monitorWidget(state: ProgressState): string {
+  const { config, total } = state;
+  if (typeof config.monitor !== "string") {
+    return formatMonitor(state);
+  }
+
+  const actualCurrent = effectiveCount(state);
+  const percent = progressFraction(state) * 100;
+  let format = config.monitor;
+  format = format.replaceAll(
+    "{count}",
+    formatNumber(actualCurrent, config.scale, config.precision, config.unit)
+  );
+  format = format.replaceAll(
+    "{total}",
+    total
+      ? formatNumber(total, config.scale, config.precision, config.unit)
+      : "?"
+  );
+  format = format.replaceAll("{percent}", `${percent.toFixed(0)}%`);
+  format = format.replaceAll("{failed}", String(state.failed));
+  format = format.replaceAll("{inFlight}", String(state.inFlight));
+  format = format.replaceAll("{items}", String(state.items));
+  format = format.replaceAll(
+    "{itemsTotal}",
+    typeof config.items === "number" ? String(config.items) : "?"
+  );
+  return format;
+}
+
+/**
+ * Stats widget: rate and ETA, or its custom format.
+ */
+function statsWidget(state: ProgressState): string {
+  const { config } = state;
+  const rate = state.etaCalculator.getRate();
+  const eta = computeEta(state);
+
+  if (typeof config.stats === "string") {
+    let format = config.stats;
+    format = format.replaceAll("{rate}", formatRate(rate, config.unit));
+    format = format.replaceAll(
+      "{eta}",
+      Number.isFinite(eta) ? formatDuration(eta, true) : "?"
+    );
+    return format;
+  }
+
+  const rateStr = formatRate(rate, config.unit);
+  const etaStr = Number.isFinite(eta)
+    ? `eta: ${formatDuration(eta, true)}`
+    : "";
+  return `(${rateStr}${etaStr ? `, ${etaStr}` : ""})`;
+}
+
+/**
+ * A part of the default progress line. Parts with a drop rank are left out,
+ * lowest rank first, when the line does not fit the terminal.
+ */
+interface LinePart {
+  content: string;
+  drop: number | null;
+}
+
+// Drop ranks: situational text goes first, then stats, then elapsed
+const DROP_TEXT = 1;
+const DROP_STATS = 2;
+const DROP_ELAPSED = 3;
+
+/**
+ * Draw a part of the line in its configured color, if any.
+ */
+function paintPart(
+  state: ProgressState,
+  text: string,
+  part: "title" | "spinner" | "widgets"
+): string {
+  return paint(text, state.config.colors[part], state.colorLevel);
+}
+
+/**
+ * Build the widgets parts of the display.
+ */
+function buildWidgets(state: ProgressState): LinePart[] {
+  const { config, total } = state;
+  const parts: LinePart[] = [];
+
+  if (config.monitor) {
+    parts.push({ content: monitorWidget(state), drop: null });
+  }
+
   // Elapsed widget
   if (config.elapsed) {
-    const elapsed = timer.elapsed();
-    if (typeof config.elapsed === "string") {
-      parts.push(config.elapsed.replace("{elapsed}", formatDuration(elapsed)));
-    } else {
-      parts.push(`in ${formatDuration(elapsed)}`);
-    }
+    const elapsed = totalElapsed(state);
+    const content =
+      typeof config.elapsed === "string"
+        ? config.elapsed.replaceAll("{elapsed}", formatDuration(elapsed))
+        : `in ${formatDuration(elapsed)}`;
+    parts.push({ content, drop: DROP_ELAPSED });
   }
 
-  // Stats widget: rate and ETA
   if (config.stats && total) {
-    const rate = etaCalculator.getRate();
-    const eta = total
-      ? etaCalculator.update(current - skipped, total)
-      : Number.POSITIVE_INFINITY;
-
-    if (typeof config.stats === "string") {
-      let format = config.stats;
-      format = format.replace("{rate}", formatRate(rate, config.unit));
-      format = format.replace(
-        "{eta}",
-        Number.isFinite(eta) ? formatDuration(eta, true) : "?"
-      );
-      parts.push(format);
-    } else {
-      const rateStr = formatRate(rate, config.unit);
-      const etaStr = Number.isFinite(eta)
-        ? `eta: ${formatDuration(eta, true)}`
-        : "";
-      parts.push(`(${rateStr}${etaStr ? `, ${etaStr}` : ""})`);
+    parts.push({ content: statsWidget(state), drop: DROP_STATS });
+  }
+
+  // Registered widgets
+  if (config.widgets.length > 0) {
+    const ctx = widgetContext(state);
+    for (const name of config.widgets) {
+      const widget = renderWidget(name, ctx);
+      if (widget) {
+        parts.push({ content: widget, drop: null });
+      }
     }
   }
 
-  return parts.join(" ");
+  for (const part of parts) {
+    part.content = paintPart(state, part.content, "widgets");
+  }
+  return parts;
+}
+
+/**
+ * Build the context registered widgets render from.
+ */
+function widgetContext(state: ProgressState): WidgetContext {
+  return {
+    current: effectiveCount(state),
+    total: state.total,
+    percent: progressFraction(state) * 100,
+    rate: state.etaCalculator.getRate(),
+    eta: computeEta(state),
+    elapsed: totalElapsed(state),
+    title: state.title,
+    text: state.text,
+    data: state.data,
+  };
+}
+
+/**
+ * Fold in progress reported by worker threads since the last pull.
+ */
+function pullWorkerProgress(state: ProgressState): void {
+  for (const pull of state.workerSources) {
+    pull();
+  }
 }
 
 /**
  * Render a single frame of the progress bar.
  */
-function renderFrame(state: ProgressState): string {
-  const {
-    config,
-    total,
-    current,
-    text,
-    title,
-    spinner,
-    bar,
-    unknownSpinner,
-    skipped,
-  } = state;
-  const parts: string[] = [];
+export function renderFrame(state: ProgressState): string {
+  pullWorkerProgress(state);
+  const { config, text } = state;
+  const termWidth = state.terminal.getWidth();
+
+  // Never wider than the terminal, or lines would wrap
+  let line = truncateToWidth(
+    config.layout
+      ? renderLayout(config.layout, termWidth, layoutResolver(state))
+      : renderDefaultLine(state, termWidth),
+    termWidth
+  );
+
+  // Dual line mode
+  if (config.dualLine && text) {
+    line += `\n${truncateToWidth(text, termWidth)}`;
+  }
+
+  // Running children, indented under this bar
+  for (const child of state.children) {
+    const childLines = renderFrame(child).split("\n");
+    line += childLines
+      .map((childLine) => `\n${truncateToWidth(`  ${childLine}`, termWidth)}`)
+      .join("");
+  }
+
+  return line;
+}
+
+/**
+ * Render the progress line in the default arrangement: title, bar and
+ * spinner, widgets, then text.
+ */
+function renderDefaultLine(state: ProgressState, maxWidth: number): string {
+  const { config, total, text, spinner, bar, unknownSpinner } = state;
+  const parts: LinePart[] = [];
 
   // Title
+  const title = displayTitle(state);
   if (title) {
-    parts.push(title);
+    parts.push({ content: paintPart(state, title, "title"), drop: null });
   }
 
   // Determine mode and render bar/spinner
-  const termWidth = state.terminal.getWidth();
-  const actualCurrent = current - skipped;
-  const percent = total ? Math.min(1, actualCurrent / total) : 0;
+  const actualCurrent = effectiveCount(state);
+  const percent = progressFraction(state);
   const overflow = total ? actualCurrent > total : false;
   const underflow = false; // Will be set at completion
 
   if (total !== null) {
     // Determinate mode: show progress bar
     const barFrame = bar(percent, overflow, underflow);
-    parts.push(barFrame.content);
+    parts.push({ content: barFrame.content, drop: null });
 
     // Show spinner alongside when in progress
     if (percent < 1 && !overflow) {
       const spinnerFrame = spinner();
-      parts.push(spinnerFrame.content);
+      parts.push({
+        content: paintPart(state, spinnerFrame.content, "spinner"),
+        drop: null,
+      });
     }
   } else {
     // Indeterminate mode: show spinner only
     const spinnerFrame = unknownSpinner();
-    parts.push(spinnerFrame.content);
+    parts.push({
+      content: paintPart(state, spinnerFrame.content, "spinner"),
+      drop: null,
+    });
   }
 
   // Widgets
-  const widgets = buildWidgets(state);
-  if (widgets) {
-    parts.push(widgets);
-  }
+  parts.push(...buildWidgets(state));
 
   // Situational text
   if (text && !config.dualLine) {
-    parts.push(text);
+    parts.push({ content: text, drop: DROP_TEXT });
   }
 
-  let line = parts.join(" ");
+  return fitParts(parts, maxWidth);
+}
 
-  // Truncate if too long
-  const lineWidth = getStringWidth(line);
-  if (lineWidth > termWidth) {
-    line = `${line.slice(0, termWidth - 3)}...`;
-  }
+/**
+ * Join line parts, leaving out droppable ones until the line fits. What
+ * still does not fit is clipped by the caller.
+ */
+function fitParts(parts: LinePart[], maxWidth: number): string {
+  let kept = parts;
+  let line = kept.map((part) => part.content).join(" ");
 
-  // Dual line mode
-  if (config.dualLine && text) {
-    line += `\n${text}`;
+  for (const rank of [DROP_TEXT, DROP_STATS, DROP_ELAPSED]) {
+    if (getDisplayWidth(line) <= maxWidth) {
+      break;
+    }
+    kept = kept.filter((part) => part.drop !== rank);
+    line = kept.map((part) => part.content).join(" ");
   }
 
   return line;
 }
 
+/**
+ * Clip text to a placeholder's precision, in cells.
+ */
+function clip(value: string, precision: number | null): string {
+  return precision === null
+    ? value
+    : joinCells(truncateCells(toCells(value), precision));
+}
+
+/**
+ * Resolve the placeholders of a layout for the current frame. Animated parts
+ * are drawn once per frame, so repeated placeholders show the same frame.
+ */
+function layoutResolver(state: ProgressState): (field: LayoutField) => string {
+  const { config, total } = state;
+  const actualCurrent = effectiveCount(state);
+  const fraction = progressFraction(state);
+  const overflow = total ? actualCurrent > total : false;
+  const unit = config.unit;
+
+  let barContent: string | null = null;
+  let spinnerContent: string | null = null;
+  let ctx: WidgetContext | null = null;
+
+  const count = (value: number, precision: number | null) =>
+    formatNumber(value, config.scale, precision ?? config.precision, unit);
+
+  return ({ name, precision }) => {
+    switch (name) {
+      case "title":
+        return paintPart(state, clip(displayTitle(state), precision), "title");
+      case "text":
+        return clip(state.text, precision);
+      case "bar":
+        barContent ??=
+          total === null
+            ? paintPart(state, state.unknownSpinner().content, "spinner")
+            : state.bar(fraction, overflow, false).content;
+        return barContent;
+      case "spinner":
+        spinnerContent ??=
+          total !== null && fraction < 1 && !overflow
+            ? paintPart(state, state.spinner().content, "spinner")
+            : "";
+        return spinnerContent;
+      case "percent":
+        return `${(fraction * 100).toFixed(precision ?? 0)}%`;
+      case "count":
+        return count(actualCurrent, precision);
+      case "total":
+        return total ? count(total, precision) : "?";
+      case "rate": {
+        const rate = state.etaCalculator.getRate();
+        return precision === null
+          ? formatRate(rate, unit)
+          : `${rate.toFixed(precision)}${unit ? ` ${unit}` : ""}/s`;
+      }
+      case "eta": {
+        const eta = computeEta(state);
+        return Number.isFinite(eta) ? formatDuration(eta, true) : "?";
+      }
+      case "elapsed":
+        return paintPart(state, formatDuration(totalElapsed(state)), "widgets");
+      case "monitor":
+        return paintPart(state, monitorWidget(state), "widgets");
+      case "stats":
+        return total ? paintPart(state, statsWidget(state), "widgets") : "";
+      case "failed":
+        return String(state.failed);
+      case "inFlight":
+        return String(state.inFlight);
+      case "items":
+        return String(state.items);
+      case "itemsTotal":
+        return typeof config.items === "number" ? String(config.items) : "?";
+      default:
+        ctx ??= widgetContext(state);
+        return paintPart(
+          state,
+          clip(renderWidget(name, ctx), precision),
+          "widgets"
+        );
+    }
+  };
+}
+
+/**
+ * Count the lines a rendered frame occupies.
+ */
+export function countLines(frame: string): number {
+  return frame.split("\n").length;
+}
+
 /**
  * Print a line while preserving the progress bar.
  */
@@ -304,19 +953,16 @@ function printLine(state: ProgressState, text: string): void {
     return;
   }
 
+  // Managed bars are drawn in a block, which the container has to redraw
+  if (state.printAbove) {
+    state.printAbove(text);
+    return;
+  }
+
   pauseHooks();
 
   // Clear current line(s), print the text, then redraw the bar
-  if (state.lastWasDualLine) {
-    state.terminal.write(cursor.up(1));
-    state.terminal.clearLine();
-    state.terminal.write(cursor.down(1));
-    state.terminal.clearLine();
-    state.terminal.write(cursor.up(1));
-  } else {
-    state.terminal.clearLine();
-  }
-
+  clearLines(state.terminal, state.lastLineCount);
   state.terminal.writeLine(text);
 
   // Redraw the bar
@@ -338,29 +984,31 @@ function updateDisplay(state: ProgressState): void {
   pauseHooks();
 
   const frame = renderFrame(state);
-  const isDualLine = state.config.dualLine && state.text !== "";
-
-  // If previous frame was dual-line, we need to clear both lines
-  if (state.lastWasDualLine) {
-    // Move up to the first line, clear it
-    state.terminal.write(cursor.up(1));
-    state.terminal.clearLine();
-    // Move down and clear the second line
-    state.terminal.write(cursor.down(1));
-    state.terminal.clearLine();
-    // Move back up to write from the first line
-    state.terminal.write(cursor.up(1));
-  } else {
-    state.terminal.clearLine();
-  }
+
+  // Clear every line of the previous frame before drawing the new one
+  clearLines(state.terminal, state.lastLineCount);
 
   state.terminal.write(frame);
   state.lastFrame = frame;
-  state.lastWasDualLine = isDualLine;
+  state.lastLineCount = countLines(frame);
 
   resumeHooks();
 }
 
+/**
+ * Redraw at once after the terminal is resized. The previous frame may have
+ * wrapped onto more rows than it was drawn on, so all of them are cleared.
+ */
+function reflow(state: ProgressState): void {
+  if (!state.isRunning || state.isPaused) {
+    return;
+  }
+
+  resize(state);
+  state.lastLineCount = countRows(state.lastFrame, state.terminal.getWidth());
+  updateDisplay(state);
+}
+
 /**
  * Start the refresh loop.
  */
@@ -398,196 +1046,258 @@ function stopRefreshLoop(state: ProgressState): void {
 }
 
 /**
- * Finalize the progress bar.
+ * Compute the final receipt and stop the bar from accepting updates.
  */
-function finalize(state: ProgressState): void {
+export function settle(state: ProgressState): Receipt {
+  pullWorkerProgress(state);
   state.isRunning = false;
-  stopRefreshLoop(state);
-  uninstallHooks();
+
+  // Close the sample history, including a trailing stall
+  const sessionElapsed = state.timer.elapsed();
+  state.samples.record(sessionElapsed, state.processed, true);
+  if (
+    state.firstItemAt !== null &&
+    sessionElapsed - state.lastProgressAt > STALL_SECS
+  ) {
+    state.stalled += sessionElapsed - state.lastProgressAt;
+  }
+
+  // Children still running are settled along with their parent
+  for (const child of state.children) {
+    state.childReceipts.push(settle(child));
+  }
+  state.children = [];
 
   // Calculate final stats
   const actualCurrent = state.current - state.skipped;
+  const { stages } = state.config;
   const overflow = state.total !== null && actualCurrent > state.total;
-  const underflow = state.total !== null && actualCurrent < state.total;
-  const success = !(overflow || underflow);
-  const elapsed = state.timer.elapsed();
+  // Finishing before the last stage leaves work undone as well
+  const underflow =
+    (state.total !== null && actualCurrent < state.total) ||
+    state.stageIndex < stages.length - 1;
+  const success = !(
+    overflow ||
+    underflow ||
+    state.failed > 0 ||
+    state.crashed ||
+    state.cancelled
+  );
+  const elapsed = totalElapsed(state);
   const rate = elapsed > 0 ? actualCurrent / elapsed : 0;
 
+  if (stages.length > 0) {
+    state.stageDurations.push({
+      name: stages[state.stageIndex].name,
+      elapsed: elapsed - state.stageStartedAt,
+    });
+  }
+
+  let percent = state.total ? (actualCurrent / state.total) * 100 : 100;
+  if (stages.length > 0) {
+    percent = underflow ? progressFraction(state) * 100 : 100;
+  }
+
   state.receipt = {
     total: state.total,
     count: actualCurrent,
-    percent: state.total ? (actualCurrent / state.total) * 100 : 100,
+    percent,
     elapsed,
+    sessionElapsed,
     rate,
     success,
     overflow,
     underflow,
+    items: state.config.items === false ? actualCurrent : state.items,
+    failed: state.failed,
+    errors: [...state.errors],
+    cancelled: state.cancelled,
+    children: [...state.childReceipts],
+    stages: [...state.stageDurations],
+    rateStats: state.samples.getRateStats(),
+    stalled: state.stalled,
+    timeToFirst: state.firstItemAt,
+    samples: state.samples.getSamples(),
   };
 
-  // Show final receipt
-  if (state.config.receipt) {
-    pauseHooks();
-
-    // Build receipt line
-    const parts: string[] = [];
+  if (state.config.report) {
+    saveReport(state, state.config.report);
+  }
 
-    if (state.title) {
-      parts.push(state.title);
+  // A completed job needs no checkpoint; anything else can resume later
+  if (state.config.checkpoint) {
+    if (underflow || state.crashed || state.cancelled) {
+      saveCheckpoint(state, state.config.checkpoint);
+    } else {
+      // Like saving, removal never breaks the work being tracked
+      try {
+        removeCheckpoint(state.config.checkpoint);
+      } catch {
+        // Ignore checkpoint paths that cannot be removed
+      }
     }
+  }
 
-    // Final bar at 100% (or with overflow indicator)
-    const barFrame = state.bar(overflow ? 1.1 : 1, overflow, underflow);
-    parts.push(barFrame.content);
+  return state.receipt;
+}
 
-    // Final stats
-    const countStr = formatNumber(
-      actualCurrent,
-      state.config.scale,
-      state.config.precision,
-      state.config.unit
-    );
-    const totalStr = state.total
-      ? formatNumber(
-          state.total,
-          state.config.scale,
-          state.config.precision,
-          state.config.unit
-        )
-      : "?";
-    const percentStr = state.total
-      ? `${Math.round((actualCurrent / state.total) * 100)}%`
-      : "100%";
-    parts.push(`${countStr}/${totalStr} [${percentStr}]`);
-
-    // Elapsed
-    parts.push(`in ${formatDuration(elapsed)}`);
-
-    // Rate
-    parts.push(`(${formatRate(rate, state.config.unit)})`);
-
-    // Success/failure indicator
-    if (overflow) {
-      parts.push("✗");
-    } else if (underflow) {
-      parts.push("⚠");
-    } else {
-      parts.push("✓");
-    }
+const SPARKLINE_TICKS = "▁▂▃▄▅▆▇█";
+const SPARKLINE_WIDTH = 16;
 
-    // Optional text
-    if (state.config.receiptText && state.text) {
-      parts.push(state.text);
-    }
+/**
+ * Draw values as a sparkline, averaging them into at most `width` ticks.
+ */
+function sparkline(values: number[], width: number): string {
+  if (values.length < 2) {
+    return "";
+  }
 
-    // Clear dual-line if necessary
-    if (state.lastWasDualLine) {
-      state.terminal.write(cursor.up(1));
-      state.terminal.clearLine();
-      state.terminal.write(cursor.down(1));
-      state.terminal.clearLine();
-      state.terminal.write(cursor.up(1));
-    } else {
-      state.terminal.clearLine();
-    }
+  const buckets: number[] = [];
+  const size = Math.ceil(values.length / width);
+  for (let i = 0; i < values.length; i += size) {
+    const bucket = values.slice(i, i + size);
+    buckets.push(bucket.reduce((sum, value) => sum + value, 0) / bucket.length);
+  }
 
-    state.terminal.writeLine(parts.join(" "));
-    state.terminal.showCursor();
+  const max = Math.max(...buckets);
+  const last = SPARKLINE_TICKS.length - 1;
+  return buckets
+    .map(
+      (value) => SPARKLINE_TICKS[max > 0 ? Math.round((value / max) * last) : 0]
+    )
+    .join("");
+}
 
-    resumeHooks();
-  } else {
-    // Clear dual-line if necessary
-    if (state.lastWasDualLine) {
-      state.terminal.write(cursor.up(1));
-      state.terminal.clearLine();
-      state.terminal.write(cursor.down(1));
-      state.terminal.clearLine();
-      state.terminal.write(cursor.up(1));
-    } else {
-      state.terminal.clearLine();
+/**
+ * Render the final receipt line of a settled bar.
+ */
+export function renderReceipt(state: ProgressState, receipt: Receipt): string {
+  const { count, total, elapsed, rate, success, overflow, underflow } = receipt;
+  const parts: string[] = [];
+
+  const title = displayTitle(state);
+  if (title) {
+    parts.push(title);
+  }
+
+  // Final bar at 100% (or with overflow indicator); cancelled bars stay
+  // where they stopped
+  const barFrame = receipt.cancelled
+    ? state.bar(total ? count / total : 0)
+    : state.bar(overflow ? 1.1 : 1, overflow, underflow);
+  parts.push(barFrame.content);
+
+  // Final stats
+  const countStr = formatNumber(
+    count,
+    state.config.scale,
+    state.config.precision,
+    state.config.unit
+  );
+  const totalStr = total
+    ? formatNumber(
+        total,
+        state.config.scale,
+        state.config.precision,
+        state.config.unit
+      )
+    : "?";
+  const percentStr = total ? `${Math.round(receipt.percent)}%` : "100%";
+  const itemsStr = formatItems(state.config, receipt.items);
+  const { receiptSymbols } = state.config;
+  const failedStr =
+    receipt.failed > 0 ? ` ${receipt.failed}${receiptSymbols.failure}` : "";
+  parts.push(`${itemsStr}${countStr}/${totalStr} [${percentStr}]${failedStr}`);
+
+  // Elapsed
+  parts.push(`in ${formatDuration(elapsed)}`);
+
+  // Rate
+  parts.push(`(${formatRate(rate, state.config.unit)})`);
+
+  // Throughput over time
+  if (state.config.sparkline) {
+    const line = sparkline(state.samples.getRates(), SPARKLINE_WIDTH);
+    if (line) {
+      parts.push(line);
     }
-    state.terminal.showCursor();
   }
+
+  // Success/failure indicator
+  if (success) {
+    parts.push(receiptSymbols.success);
+  } else if (receipt.cancelled) {
+    parts.push(receiptSymbols.cancelled);
+  } else if (underflow && !state.crashed) {
+    parts.push(receiptSymbols.warning);
+  } else {
+    parts.push(receiptSymbols.failure);
+  }
+
+  // Optional text
+  if (state.config.receiptText && state.text) {
+    parts.push(state.text);
+  }
+
+  return parts.join(" ");
 }
 
 /**
- * Create a progress bar.
- *
- * @example
- * // Basic usage with callback
- * const done = await aliveBar(100, async (bar) => {
- *   for (let i = 0; i < 100; i++) {
- *     await doWork();
- *     bar();
- *   }
- * });
- *
- * @example
- * // Manual control
- * const { bar, done } = aliveBar(100);
- * for (let i = 0; i < 100; i++) {
- *   await doWork();
- *   bar();
- * }
- * done();
+ * Finalize the progress bar.
  */
-export function aliveBar(
-  total: number | null = null,
-  options: AliveBarOptions = {}
-): { bar: ProgressBar; done: () => Receipt } {
-  const config = resolveConfig(options);
+function finalize(state: ProgressState): void {
+  const receipt = settle(state);
+  stopRefreshLoop(state);
+  uninstallHooks();
 
-  const state: ProgressState = {
-    config,
-    total,
-    current: 0,
-    text: "",
-    title: config.title,
-    terminal: createTerminal({
-      stream: config.file,
-      forceTty: config.forceTty,
-      disable: config.disable,
-    }),
-    spinner: config.spinner(config.length),
-    bar: config.bar(config.length),
-    unknownSpinner: config.unknown(config.length),
-    timer: new Timer(),
-    etaCalculator: new ETACalculator(config.etaAlpha),
-    refreshInterval: null,
-    isRunning: true,
-    isPaused: false,
-    lastFrame: "",
-    lastWasDualLine: false,
-    receipt: null,
-    skipped: 0,
-    printBuffer: [],
-  };
+  pauseHooks();
 
-  // Install hooks for console interception
-  if (config.enrichPrint && state.terminal.isInteractive()) {
-    installHooks({
-      enrichPrint: config.enrichPrint,
-      enrichOffset: config.enrichOffset,
-      printFn: (text: string) => printLine(state, text),
-    });
+  // Clear every line of the last frame, then show the final receipt
+  clearLines(state.terminal, state.lastLineCount);
+  if (state.config.receipt) {
+    state.terminal.writeLine(renderReceipt(state, receipt));
   }
+  state.terminal.showCursor();
 
-  // Hide cursor and start refresh
-  state.terminal.hideCursor();
-  updateDisplay(state);
-  startRefreshLoop(state);
+  resumeHooks();
+}
 
-  // Setup Ctrl+C handler
-  let sigintHandler: (() => void) | null = null;
-  if (config.ctrlC) {
-    sigintHandler = () => {
-      finalize(state);
-      process.exit(130);
+/**
+ * Run a callback once the signal aborts (or right away if it already has).
+ * Returns a function that stops watching the signal.
+ */
+export function onAbort(
+  signal: AbortSignal | null,
+  callback: () => void
+): () => void {
+  if (!signal) {
+    return () => {
+      // Nothing to stop watching
+    };
+  }
+
+  if (signal.aborted) {
+    callback();
+    return () => {
+      // Already fired
     };
-    process.on("SIGINT", sigintHandler);
   }
 
+  signal.addEventListener("abort", callback, { once: true });
+  return () => signal.removeEventListener("abort", callback);
+}
+
+/**
+ * Create the callable bar handler for a bar's state.
+ */
+export function createHandler(state: ProgressState): ProgressBar {
+  const { config } = state;
+
   // Create the progress bar handler as a callable function with properties
-  const barFn = (count = 1, opts: { skipped?: boolean } = {}) => {
+  const barFn = (
+    count = 1,
+    opts: { skipped?: boolean; failed?: boolean; items?: number } = {}
+  ) => {
     if (!state.isRunning) {
       return;
     }
@@ -596,6 +1306,13 @@ export function aliveBar(
       state.skipped += count;
     }
 
+    // In manual mode count is a percentage, so failures come from fail().
+    // Weighted failures are counted in items, not in weight.
+    if (opts.failed && !config.manual) {
+      state.failed += config.items === false ? count : (opts.items ?? 1);
+    }
+
+    const before = state.current;
     if (config.manual) {
       // Manual mode: count is the percentage (0-1)
       state.current = count * (state.total || 100);
@@ -603,7 +1320,26 @@ export function aliveBar(
       state.current += count;
     }
 
-    updatePosition(state.current);
+    if (!opts.skipped && state.current > before) {
+      recordProgress(state, state.current - before);
+    }
+
+    // Weighted mode: count was the weight, items are tallied apart
+    if (config.items !== false) {
+      state.items += opts.items ?? (config.manual ? 0 : 1);
+    }
+
+    // Console enrichment reports the position of the top-level bar
+    if (!state.parent) {
+      updatePosition(state.current);
+    }
+
+    if (
+      config.checkpoint &&
+      Date.now() - state.lastCheckpointAt >= CHECKPOINT_INTERVAL_MS
+    ) {
+      saveCheckpoint(state, config.checkpoint);
+    }
   };
 
   // Define properties on the function using Object.defineProperties
@@ -614,6 +1350,45 @@ export function aliveBar(
       },
       enumerable: true,
     },
+    items: {
+      get() {
+        return state.items;
+      },
+      enumerable: true,
+    },
+    failed: {
+      get() {
+        return state.failed;
+      },
+      enumerable: true,
+    },
+    inFlight: {
+      get() {
+        return state.inFlight;
+      },
+      set(value: number) {
+        state.inFlight = value;
+      },
+      enumerable: true,
+    },
+    fail: {
+      value(count = 1, error?: unknown) {
+        if (!state.isRunning) {
+          return;
+        }
+
+        if (error !== undefined) {
+          state.errors.push(error);
+        }
+
+        if (config.manual) {
+          state.failed += count;
+        } else {
+          barFn(count, { failed: true });
+        }
+      },
+      enumerable: true,
+    },
     text: {
       get() {
         return state.text;
@@ -632,33 +1407,21 @@ export function aliveBar(
       },
       enumerable: true,
     },
+    data: {
+      get() {
+        return state.data;
+      },
+      enumerable: true,
+    },
     elapsed: {
       get() {
-        return state.timer.elapsed();
+        return totalElapsed(state);
       },
       enumerable: true,
     },
     monitor: {
       get() {
-        const actualCurrent = state.current - state.skipped;
-        const percent = state.total
-          ? Math.min(100, (actualCurrent / state.total) * 100)
-          : 0;
-        const countStr = formatNumber(
-          actualCurrent,
-          config.scale,
-          config.precision,
-          config.unit
-        );
-        const totalStr = state.total
-          ? formatNumber(
-              state.total,
-              config.scale,
-              config.precision,
-              config.unit
-            )
-          : "?";
-        return `${countStr}/${totalStr} [${percent.toFixed(0)}%]`;
+        return formatMonitor(state);
       },
       enumerable: true,
     },
@@ -670,11 +1433,7 @@ export function aliveBar(
     },
     eta: {
       get() {
-        const actualCurrent = state.current - state.skipped;
-        if (!state.total) {
-          return "?";
-        }
-        const eta = state.etaCalculator.update(actualCurrent, state.total);
+        const eta = computeEta(state);
         return Number.isFinite(eta) ? formatDuration(eta, true) : "?";
       },
       enumerable: true,
@@ -697,21 +1456,157 @@ export function aliveBar(
       },
       enumerable: true,
     },
+    print: {
+      value(text: string) {
+        printLine(state, text);
+      },
+      enumerable: true,
+    },
+    stage: {
+      value(name: string, stageTotal: number | null = null) {
+        const { stages } = config;
+        const index = stages.findIndex((stage) => stage.name === name);
+        if (index === -1) {
+          const declared = stages.map((stage) => stage.name).join(", ");
+          throw new Error(
+            `Unknown stage "${name}"; declared stages: ${declared || "none"}`
+          );
+        }
+        if (index < state.stageIndex) {
+          throw new Error(
+            `Cannot go back to stage "${name}" from "${stages[state.stageIndex].name}"`
+          );
+        }
+        if (!state.isRunning) {
+          return;
+        }
+
+        // Naming the current stage only sets its total
+        if (index === state.stageIndex) {
+          state.total = stageTotal;
+          return;
+        }
+
+        const elapsed = totalElapsed(state);
+        state.stageDurations.push({
+          name: stages[state.stageIndex].name,
+          elapsed: elapsed - state.stageStartedAt,
+        });
+
+        // Counters restart for the new stage, with its own rate
+        state.stageIndex = index;
+        state.stageStartedAt = elapsed;
+        state.total = stageTotal;
+        state.current = 0;
+        state.skipped = 0;
+        state.etaCalculator = new ETACalculator(config.etaAlpha);
+      },
+      enumerable: true,
+    },
+    shareWithWorker: {
+      value(): WorkerProgressHandle {
+        const { handle, read } = createWorkerHandle();
+        let seen: SharedCounts = {
+          count: 0,
+          items: 0,
+          failedCount: 0,
+          failedItems: 0,
+          text: null,
+        };
+
+        state.workerSources.push(() => {
+          const counts = read();
+          const count = counts.count - seen.count;
+          const items = counts.items - seen.items;
+          const failedCount = counts.failedCount - seen.failedCount;
+          const failedItems = counts.failedItems - seen.failedItems;
+
+          // A worker bumps count and items in two steps, so a read can see
+          // either one alone: apply each delta as soon as it shows up
+          if (count !== 0 || items !== 0) {
+            barFn(count, { items });
+          }
+          if (failedCount !== 0 || failedItems !== 0) {
+            barFn(failedCount, { failed: true, items: failedItems });
+          }
+          if (counts.text !== null) {
+            state.text = counts.text;
+          }
+          seen = counts;
+        });
+
+        return handle;
+      },
+      enumerable: true,
+    },
+    child: {
+      value(childTotal: number | null = null, options: AliveBarOptions = {}) {
+        // Children draw where their parent does, in the same colors
+        const childState = createState(
+          childTotal,
+          resolveConfig({
+            file: config.file,
+            colorLevel: state.colorLevel,
+            ...options,
+          }),
+          state.terminal,
+          true
+        );
+        childState.parent = state;
+        childState.printAbove = (text) => printLine(state, text);
+        state.children.push(childState);
+
+        const detach = (): Receipt => {
+          if (!childState.isRunning) {
+            return childState.receipt as Receipt;
+          }
+
+          const receipt = settle(childState);
+          const index = state.children.indexOf(childState);
+          if (index !== -1) {
+            state.children.splice(index, 1);
+            state.childReceipts.push(receipt);
+          }
+          return receipt;
+        };
+
+        const stopWatching = onAbort(childState.config.signal, () => {
+          childState.cancelled = true;
+          detach();
+        });
+
+        const done = (): Receipt => {
+          stopWatching();
+          const wasRunning = childState.isRunning;
+          const receipt = detach();
+
+          // A finished child is one completed unit of its parent, counted
+          // like any other so the parent's statistics see it
+          if (wasRunning && state.isRunning && !config.manual) {
+            barFn();
+          }
+          return receipt;
+        };
+
+        return { bar: createHandler(childState), done };
+      },
+      enumerable: true,
+    },
     pause: {
       value() {
         state.isPaused = true;
         state.timer.pause();
 
-        // Clear dual-line if necessary
-        if (state.lastWasDualLine) {
-          state.terminal.write(cursor.up(1));
-          state.terminal.clearLine();
-          state.terminal.write(cursor.down(1));
-          state.terminal.clearLine();
-          state.terminal.write(cursor.up(1));
-        } else {
-          state.terminal.clearLine();
+        // Managed bars keep their row in the container's block
+        if (state.managed) {
+          return () => {
+            state.isPaused = false;
+            state.timer.resume();
+          };
         }
+
+        clearLines(state.terminal, state.lastLineCount);
+        state.lastLineCount = 0;
         state.terminal.showCursor();
 
         return () => {
@@ -725,18 +1620,229 @@ export function aliveBar(
     },
   });
 
-  const bar = barFn as ProgressBar;
+  return barFn as ProgressBar;
+}
+
+/**
+ * Work run by the callback form of aliveBar.
+ */
+export type BarCallback = (bar: ProgressBar) => Promise<void> | void;
+
+/**
+ * Start a standalone bar, returning its handler and a finisher.
+ */
+function startBar(
+  total: number | null,
+  options: AliveBarOptions
+): {
+  bar: ProgressBar;
+  finish: (crashed: boolean, error?: unknown) => Receipt;
+} {
+  const config = resolveConfig(options);
+
+  const state = createState(
+    total,
+    config,
+    createTerminal({
+      stream: config.file,
+      forceTty: config.forceTty,
+      disable: config.disable,
+    })
+  );
+
+  // Install hooks for console interception
+  if (config.enrichPrint && state.terminal.isInteractive()) {
+    installHooks({
+      enrichPrint: config.enrichPrint,
+      enrichOffset: config.enrichOffset,
+      printFn: (text: string) => printLine(state, text),
+    });
+  }
 
-  const done = (): Receipt => {
+  // Hide cursor and start refresh
+  state.terminal.hideCursor();
+  updateDisplay(state);
+  startRefreshLoop(state);
+
+  // Setup Ctrl+C handler
+  let sigintHandler: (() => void) | null = null;
+  if (config.ctrlC) {
+    sigintHandler = () => {
+      finalize(state);
+      process.exit(130);
+    };
+    process.on("SIGINT", sigintHandler);
+  }
+
+  // Redraw to the new width as soon as the terminal is resized
+  const stopResizing = state.terminal.isInteractive()
+    ? onResize(config.file, () => reflow(state))
+    : null;
+
+  const bar = createHandler(state);
+
+  const close = (): Receipt => {
     if (sigintHandler) {
       process.off("SIGINT", sigintHandler);
     }
-    finalize(state);
+    stopResizing?.();
+    if (state.isRunning) {
+      finalize(state);
+    }
     // Receipt is guaranteed to be set after finalize()
     return state.receipt as Receipt;
   };
 
-  return { bar, done };
+  // Cancel through the AbortSignal, if any
+  const stopWatching = onAbort(config.signal, () => {
+    state.cancelled = true;
+    close();
+  });
+
+  const finish = (crashed: boolean, error?: unknown): Receipt => {
+    stopWatching();
+    if (state.isRunning && crashed) {
+      state.crashed = true;
+      state.errors.push(error);
+    }
+    return close();
+  };
+
+  return { bar, finish };
+}
+
+/**
+ * Run the callback form of aliveBar, finishing the bar however it ends.
+ */
+async function runWithBar(
+  bar: ProgressBar,
+  finish: (crashed: boolean, error?: unknown) => Receipt,
+  callback: BarCallback
+): Promise<Receipt> {
+  try {
+    await callback(bar);
+  } catch (error) {
+    finish(true, error);
+    throw error;
+  }
+  return finish(false);
+}
+
+/**
+ * Create a progress bar.
+ *
+ * In the callback form, done() is called automatically when the callback
+ * settles. If it throws, the receipt is marked failed and the error rethrown.
+ *
+ * @example
+ * // Basic usage with callback
+ * const receipt = await aliveBar(100, async (bar) => {
+ *   for (let i = 0; i < 100; i++) {
+ *     await doWork();
+ *     bar();
+ *   }
+ * });
+ *
+ * @example
+ * // Manual control
+ * const { bar, done } = aliveBar(100);
+ * for (let i = 0; i < 100; i++) {
+ *   await doWork();
+ *   bar();
+ * }
+ * done();
+ */
+export function aliveBar(
+  total: number | null,
+  callback: BarCallback
+): Promise<Receipt>;
+export function aliveBar(
+  total: number | null,
+  options: AliveBarOptions,
+  callback: BarCallback
+): Promise<Receipt>;
+export function aliveBar(
+  total?: number | null,
+  options?: AliveBarOptions
+): { bar: ProgressBar; done: () => Receipt };
+export function aliveBar(
+  total: number | null = null,
+  optionsOrCallback: AliveBarOptions | BarCallback = {},
+  callback?: BarCallback
+): { bar: ProgressBar; done: () => Receipt } | Promise<Receipt> {
+  const options =
+    typeof optionsOrCallback === "function" ? {} : optionsOrCallback;
+  const work =
+    typeof optionsOrCallback === "function" ? optionsOrCallback : callback;
+
+  const { bar, finish } = startBar(total, options);
+
+  if (work) {
+    return runWithBar(bar, finish, work);
+  }
+
+  return { bar, done: () => finish(false) };
+}
+
+/**
+ * Options for aliveIt and aliveItSync.
+ */
+export interface AliveItOptions<T> extends AliveBarOptions {
+  /**
+   * Weight of each item (e.g. its size in bytes). Percent, ETA and rate then
+   * follow the weights, while the monitor still shows item counts.
+   */
+  weight?: (item: T) => number;
+}
+
+/**
+ * Get the number of items of an iterable, if it can be known upfront.
+ */
+export function detectLength(
+  iterable: Iterable<unknown> | AsyncIterable<unknown>
+): number | null {
+  if (Array.isArray(iterable)) {
+    return iterable.length;
+  }
+  if (
+    "length" in iterable &&
+    typeof (iterable as { length: number }).length === "number"
+  ) {
+    return (iterable as { length: number }).length;
+  }
+  if (
+    "size" in iterable &&
+    typeof (iterable as { size: number }).size === "number"
+  ) {
+    return (iterable as { size: number }).size;
+  }
+  return null;
+}
+
+/**
+ * Start the bar driving aliveIt/aliveItSync, weighted if requested.
+ */
+export function startIterationBar<T>(
+  iterable: Iterable<T> | AsyncIterable<T>,
+  options: AliveItOptions<T>
+): { bar: ProgressBar; done: () => Receipt } {
+  const { weight, ...barOptions } = options;
+  const length = detectLength(iterable);
+
+  if (!weight) {
+    return aliveBar(length, barOptions);
+  }
+
+  // Sized sync iterables can be walked upfront to total their weights
+  let totalWeight: number | null = null;
+  if (length !== null && Symbol.iterator in iterable) {
+    totalWeight = 0;
+    for (const item of iterable as Iterable<T>) {
+      totalWeight += weight(item);
+    }
+  }
+
+  return aliveBar(totalWeight, { items: length ?? true, ...barOptions });
 }
 
 /**
@@ -752,39 +1858,48 @@ export function aliveBar(
  * for await (const item of aliveIt(items, { title: 'Processing' })) {
  *   await processItem(item);
  * }
+ *
+ * @example
+ * // Weighted: progress follows file sizes, the monitor still counts files
+ * for await (const file of aliveIt(files, {
+ *   weight: (file) => file.size,
+ *   unit: 'B',
+ *   scale: 'IEC',
+ *   itemUnit: 'files',
+ * })) {
+ *   await upload(file);
+ * }
+ *
+ * @example
+ * // Cancellable: iteration ends cleanly once the signal aborts
+ * const controller = new AbortController();
+ * for await (const item of aliveIt(items, { signal: controller.signal })) {
+ *   await processItem(item);
+ * }
  */
 export async function* aliveIt<T>(
   iterable: Iterable<T> | AsyncIterable<T>,
-  options: AliveBarOptions = {}
+  options: AliveItOptions<T> = {}
 ): AsyncGenerator<T, void, unknown> {
-  // Get total if possible
-  let total: number | null = null;
-  if (Array.isArray(iterable)) {
-    total = iterable.length;
-  } else if (
-    "length" in iterable &&
-    typeof (iterable as { length: number }).length === "number"
-  ) {
-    total = (iterable as { length: number }).length;
-  } else if (
-    "size" in iterable &&
-    typeof (iterable as { size: number }).size === "number"
-  ) {
-    total = (iterable as { size: number }).size;
-  }
-
-  const { bar, done } = aliveBar(total, options);
+  const { bar, done } = startIterationBar(iterable, options);
+  const { signal, weight } = options;
 
   try {
     if (Symbol.asyncIterator in iterable) {
       for await (const item of iterable as AsyncIterable<T>) {
+        if (signal?.aborted) {
+          break;
+        }
         yield item;
-        bar();
+        bar(weight ? weight(item) : 1);
       }
     } else {
       for (const item of iterable as Iterable<T>) {
+        if (signal?.aborted) {
+          break;
+        }
         yield item;
-        bar();
+        bar(weight ? weight(item) : 1);
       }
     }
   } finally {
@@ -797,30 +1912,18 @@ export async function* aliveIt<T>(
  */
 export function* aliveItSync<T>(
   iterable: Iterable<T>,
-  options: AliveBarOptions = {}
+  options: AliveItOptions<T> = {}
 ): Generator<T, void, unknown> {
-  // Get total if possible
-  let total: number | null = null;
-  if (Array.isArray(iterable)) {
-    total = iterable.length;
-  } else if (
-    "length" in iterable &&
-    typeof (iterable as { length: number }).length === "number"
-  ) {
-    total = (iterable as { length: number }).length;
-  } else if (
-    "size" in iterable &&
-    typeof (iterable as { size: number }).size === "number"
-  ) {
-    total = (iterable as { size: number }).size;
-  }
-
-  const { bar, done } = aliveBar(total, options);
+  const { bar, done } = startIterationBar(iterable, options);
+  const { signal, weight } = options;
 
   try {
     for (const item of iterable) {
+      if (signal?.aborted) {
+        break;
+      }
       yield item;
-      bar();
+      bar(weight ? weight(item) : 1);
     }
   } finally {
     done();
@@ -0,0 +1,103 @@
+/**
+ * Structured reports of finished bars.
+ *
+ * A report holds a bar's receipt together with its title, options and final
+ * text, written as a JSON file or appended as an NDJSON line so that runs can
+ * be collected and compared over time.
+ */
+
+import { appendFileSync, mkdirSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ReportTarget, ResolvedConfig } from "./configuration.js";
+
+const REPORT_VERSION = 1;
+
+/**
+ * Report of a finished bar. The receipt includes the timing samples.
+ */
+export interface Report<R = unknown> {
+  version: number;
+  title: string;
+  text: string;
+  /** ISO timestamp of when the bar finished */
+  finishedAt: string;
+  /** Options that can be represented in JSON */
+  options: Record<string, unknown>;
+  receipt: R;
+}
+
+/**
+ * Keep the options that survive JSON: streams, signals and spinner or bar
+ * factories are left out.
+ */
+export function serializableOptions(
+  config: ResolvedConfig
+): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (
+      value === null ||
+      Array.isArray(value) ||
+      ["string", "number", "boolean"].includes(typeof value)
+    ) {
+      options[key] = value;
+    }
+  }
+  return options;
+}
+
+/**
+ * Make a JSON replacer for what bars hold but JSON cannot: errors (which have
+ * no enumerable fields) keep their name and message, BigInts become strings
+ * and circular references become "[Circular]".
+ */
+function createReplacer(): (
+  this: unknown,
+  key: string,
+  value: unknown
+) => unknown {
+  // Objects from the root down to the one being serialized
+  const ancestors: unknown[] = [];
+
+  return function (this: unknown, _key: string, value: unknown): unknown {
+    const replaced =
+      value instanceof Error
+        ? { name: value.name, message: value.message }
+        : value;
+    if (typeof replaced === "bigint") {
+      return replaced.toString();
+    }
+    if (typeof replaced !== "object" || replaced === null) {
+      return replaced;
+    }
+
+    while (ancestors.length > 0 && ancestors.at(-1) !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(replaced)) {
+      return "[Circular]";
+    }
+    ancestors.push(replaced);
+    return replaced;
+  };
+}
+
+/**
+ * Write a report, overwriting a JSON file or appending an NDJSON line.
+ */
+export function writeReport(
+  target: Required<ReportTarget>,
+  report: Omit<Report, "version">
+): void {
+  const data = { version: REPORT_VERSION, ...report };
+  mkdirSync(dirname(target.path), { recursive: true });
+
+  if (target.format === "ndjson") {
+    appendFileSync(target.path, `${JSON.stringify(data, createReplacer())}\n`);
+  } else {
+    writeFileSync(
+      target.path,
+      `${JSON.stringify(data, createReplacer(), 2)}\n`
+    );
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Progress of Node streams.
+ *
+ * aliveStream() returns a pass-through Transform that counts the bytes (or
+ * chunks) flowing through it, so it can be dropped into any pipeline().
+ */
+
+import { Transform } from "node:stream";
+import type { AliveBarOptions } from "./configuration.js";
+import { aliveBar, type ProgressBar, type Receipt } from "./progress.js";
+
+/**
+ * HTTP headers, either WHATWG Headers or Node's plain header object.
+ */
+export type HeadersLike =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | number | undefined>;
+
+/**
+ * Options for aliveStream.
+ */
+export interface AliveStreamOptions extends AliveBarOptions {
+  /** What to count: 'bytes' (default) or 'chunks' (object mode) */
+  count?: "bytes" | "chunks";
+  /** Expected total, if known */
+  total?: number | null;
+  /** Take the total from a file's size, e.g. fs.statSync(path) */
+  fileStats?: { size: number };
+  /** Take the total from a content-length header */
+  headers?: HeadersLike;
+}
+
+/**
+ * Transform stream with the bar it drives.
+ */
+export interface AliveStream extends Transform {
+  bar: ProgressBar;
+  /** Resolves once the stream ends, errors or closes early */
+  receipt: Promise<Receipt>;
+}
+
+/**
+ * Read a content-length header, or null if missing or invalid.
+ */
+export function contentLength(headers: HeadersLike): number | null {
+  const value =
+    typeof headers.get === "function"
+      ? headers.get("content-length")
+      : (headers as Record<string, unknown>)["content-length"];
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const length = Number(value);
+  return Number.isInteger(length) && length >= 0 ? length : null;
+}
+
+/**
+ * Create a pass-through stream that shows its progress.
+ *
+ * The bar finishes when the stream ends, and is marked failed if the stream
+ * errors or closes before the end.
+ *
+ * @example
+ * await pipeline(
+ *   createReadStream(path),
+ *   aliveStream({ fileStats: statSync(path), title: 'Uploading' }),
+ *   upload
+ * );
+ */
+export function aliveStream(options: AliveStreamOptions = {}): AliveStream {
+  const { count = "bytes", total, fileStats, headers, ...barOptions } = options;
+  const countBytes = count === "bytes";
+
+  let resolvedTotal = total ?? fileStats?.size ?? null;
+  if (resolvedTotal === null && headers) {
+    resolvedTotal = contentLength(headers);
+  }
+
+  let ended = false;
+  let endWork: () => void = () => {
+    // Replaced below once the bar is running
+  };
+  let failWork: (error: unknown) => void = () => {
+    // Replaced below once the bar is running
+  };
+  const work = new Promise<void>((resolve, reject) => {
+    endWork = resolve;
+    failWork = reject;
+  });
+
+  // The callback form marks the receipt failed if the work rejects. It runs
+  // the callback right away, so the bar is assigned before aliveBar returns.
+  let bar!: ProgressBar;
+  const receipt = aliveBar(
+    resolvedTotal,
+    {
+      unit: countBytes ? "B" : "",
+      scale: countBytes ? "IEC" : null,
+      ...barOptions,
+    },
+    (handle) => {
+      bar = handle;
+      return work;
+    }
+  ).catch(() => bar.receipt as Receipt);
+
+  const stream = new Transform({
+    objectMode: !countBytes,
+    transform(chunk: Buffer, _encoding, callback) {
+      bar(countBytes ? chunk.length : 1);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      ended = true;
+      endWork();
+      callback();
+    },
+  }) as AliveStream;
+
+  stream.on("error", (error) => failWork(error));
+  stream.on("close", () => {
+    if (!ended) {
+      failWork(new Error("Stream closed before it ended"));
+    }
+  });
+
+  stream.bar = bar;
+  stream.receipt = receipt;
+  return stream;
+}
@@ -0,0 +1,101 @@
+/**
+ * User-registered widgets.
+ *
+ * A widget is a function from the bar's current context to a string, looked
+ * up by name on every frame. Bars show them through the `widgets` option.
+ */
+
+import {
+  checkRegistration,
+  type RegisterOptions,
+  unknownName,
+  warnOnce,
+} from "../utils/registry.js";
+
+/**
+ * What a widget gets to render from, refreshed on every frame.
+ */
+export interface WidgetContext {
+  current: number;
+  total: number | null;
+  /** Percent done (0-100), 0 when the total is unknown */
+  percent: number;
+  /** Smoothed rate, in units per second */
+  rate: number;
+  /** Seconds remaining, or Infinity if unknown */
+  eta: number;
+  /** Seconds elapsed */
+  elapsed: number;
+  title: string;
+  text: string;
+  /** The bar's user data, see bar.data */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Render a widget from the bar's context.
+ */
+export type Widget = (ctx: WidgetContext) => string;
+
+/**
+ * Names of the built-in widgets, which cannot be replaced.
+ */
+const BUILT_IN_WIDGETS = new Set(["monitor", "elapsed", "stats"]);
+
+const registry = new Map<string, Widget>();
+
+/**
+ * Register a widget under a name, plain or namespaced ("acme:queue").
+ * A name already taken is only replaced with `{ replace: true }`.
+ *
+ * @example
+ * registerWidget('queue', (ctx) => `queue: ${ctx.data.queueDepth ?? 0}`);
+ *
+ * const { bar, done } = aliveBar(jobs.length, { widgets: ['queue'] });
+ * bar.data.queueDepth = queue.length;
+ */
+export function registerWidget(
+  name: string,
+  widget: Widget,
+  options?: RegisterOptions
+): void {
+  checkRegistration(
+    "widget",
+    name,
+    { builtIn: BUILT_IN_WIDGETS.has(name), taken: registry.has(name) },
+    options
+  );
+  registry.set(name, widget);
+}
+
+/**
+ * Remove a registered widget. Returns whether it existed.
+ */
+export function unregisterWidget(name: string): boolean {
+  return registry.delete(name);
+}
+
+/**
+ * Get a registered widget by name.
+ */
+export function getWidget(name: string): Widget | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Render a widget by name. Unknown widgets render nothing (with a warning),
+ * and a widget that throws renders "?" rather than breaking the bar.
+ */
+export function renderWidget(name: string, ctx: WidgetContext): string {
+  const widget = registry.get(name);
+  if (!widget) {
+    warnOnce(unknownName("widget", name, [...registry.keys()]));
+    return "";
+  }
+
+  try {
+    return widget(ctx);
+  } catch {
+    return "?";
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Progress reporting from worker threads.
+ *
+ * A bar's state lives on the main thread, so workers report through a
+ * SharedArrayBuffer instead: counters are bumped with Atomics (cheap enough to
+ * call per item from several workers at once), and the main-thread bar folds
+ * them in whenever it draws or finishes.
+ */
+
+/**
+ * Handle to share a bar with worker threads, e.g. through `workerData` or
+ * `postMessage`. Create it with `bar.shareWithWorker()`.
+ */
+export interface WorkerProgressHandle {
+  buffer: SharedArrayBuffer;
+}
+
+/**
+ * Progress reporter used inside a worker thread.
+ */
+export interface WorkerProgress {
+  /** Increment the bar by a whole number (default: 1), counting one item */
+  (count?: number): void;
+  /** Count a failed item, advancing the bar by count (default: 1) */
+  fail(count?: number): void;
+  /** Set the bar's situational text */
+  text: string;
+  /** Set the bar's situational text (method form) */
+  setText(text: string): void;
+}
+
+/**
+ * Totals reported by all workers so far.
+ */
+export interface SharedCounts {
+  count: number;
+  items: number;
+  failedCount: number;
+  failedItems: number;
+  /** Latest text, or null if unchanged since the last read */
+  text: string | null;
+}
+
+// Counter slots (BigInt64Array)
+const COUNT = 0;
+const ITEMS = 1;
+const FAILED_COUNT = 2;
+const FAILED_ITEMS = 3;
+const COUNTER_SLOTS = 4;
+
+// Text slots (Int32Array)
+const LOCK = 0;
+const VERSION = 1;
+const LENGTH = 2;
+const META_SLOTS = 3;
+
+/** Text longer than this is truncated (in UTF-8 bytes) */
+const MAX_TEXT_BYTES = 1024;
+
+const META_OFFSET = COUNTER_SLOTS * BigInt64Array.BYTES_PER_ELEMENT;
+const TEXT_OFFSET = META_OFFSET + META_SLOTS * Int32Array.BYTES_PER_ELEMENT;
+
+interface SharedViews {
+  counters: BigInt64Array;
+  meta: Int32Array;
+  text: Uint8Array;
+}
+
+function createViews(buffer: SharedArrayBuffer): SharedViews {
+  return {
+    counters: new BigInt64Array(buffer, 0, COUNTER_SLOTS),
+    meta: new Int32Array(buffer, META_OFFSET, META_SLOTS),
+    text: new Uint8Array(buffer, TEXT_OFFSET, MAX_TEXT_BYTES),
+  };
+}
+
+/**
+ * Run fn while holding the text lock. Writers hold it only for a short copy.
+ */
+function withLock<T>(meta: Int32Array, fn: () => T): T {
+  while (Atomics.compareExchange(meta, LOCK, 0, 1) !== 0) {
+    // Spin: the holder only copies a few bytes
+  }
+  try {
+    return fn();
+  } finally {
+    Atomics.store(meta, LOCK, 0);
+  }
+}
+
+/**
+ * Create a handle and a reader of the totals reported through it.
+ */
+export function createWorkerHandle(): {
+  handle: WorkerProgressHandle;
+  read: () => SharedCounts;
+} {
+  const buffer = new SharedArrayBuffer(TEXT_OFFSET + MAX_TEXT_BYTES);
+  const { counters, meta, text } = createViews(buffer);
+  const decoder = new TextDecoder();
+  let lastVersion = 0;
+
+  const read = (): SharedCounts => {
+    let latestText: string | null = null;
+    if (Atomics.load(meta, VERSION) !== lastVersion) {
+      latestText = withLock(meta, () => {
+        lastVersion = Atomics.load(meta, VERSION);
+        // Copy out of shared memory, which TextDecoder does not accept
+        return decoder.decode(text.slice(0, Atomics.load(meta, LENGTH)));
+      });
+    }
+
+    return {
+      count: Number(Atomics.load(counters, COUNT)),
+      items: Number(Atomics.load(counters, ITEMS)),
+      failedCount: Number(Atomics.load(counters, FAILED_COUNT)),
+      failedItems: Number(Atomics.load(counters, FAILED_ITEMS)),
+      text: latestText,
+    };
+  };
+
+  return { handle: { buffer }, read };
+}
+
+function toCount(count: number): bigint {
+  if (!Number.isInteger(count)) {
+    throw new RangeError(`worker counts must be integers, got ${count}`);
+  }
+  return BigInt(count);
+}
+
+/**
+ * Report progress to a main-thread bar from inside a worker thread.
+ *
+ * @example
+ * // main.ts
+ * const { bar, done } = aliveBar(files.length);
+ * const worker = new Worker('./hash.js', {
+ *   workerData: { files, progress: bar.shareWithWorker() },
+ * });
+ *
+ * // hash.js
+ * const progress = workerProgress(workerData.progress);
+ * for (const file of workerData.files) {
+ *   progress.text = file;
+ *   hash(file);
+ *   progress();
+ * }
+ */
+export function workerProgress(handle: WorkerProgressHandle): WorkerProgress {
+  const { counters, meta, text } = createViews(handle.buffer);
+  const encoder = new TextEncoder();
+  let currentText = "";
+
+  const setText = (value: string) => {
+    currentText = value;
+    const bytes = encoder.encode(value).subarray(0, MAX_TEXT_BYTES);
+    withLock(meta, () => {
+      text.set(bytes);
+      Atomics.store(meta, LENGTH, bytes.length);
+      Atomics.add(meta, VERSION, 1);
+    });
+  };
+
+  const progress = ((count = 1) => {
+    Atomics.add(counters, COUNT, toCount(count));
+    Atomics.add(counters, ITEMS, 1n);
+  }) as WorkerProgress;
+
+  Object.defineProperties(progress, {
+    fail: {
+      value(count = 1) {
+        Atomics.add(counters, FAILED_COUNT, toCount(count));
+        Atomics.add(counters, FAILED_ITEMS, 1n);
+      },
+      enumerable: true,
+    },
+    text: {
+      get() {
+        return currentText;
+      },
+      set: setText,
+      enumerable: true,
+    },
+    setText: {
+      value: setText,
+      enumerable: true,
+    },
+  });
+
+  return progress;
+}
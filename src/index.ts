@@ -22,6 +22,7 @@
 
 export type {
   Bar,
+  BarColors,
   BarFactory,
   BarFrame,
   BarOptions,
@@ -53,7 +54,21 @@ export {
   scrollingSpinner,
   sequentialSpinner,
 } from "./animations/spinners.js";
-export type { AliveBarOptions, ResolvedConfig } from "./core/configuration.js";
+export type { ConfigFile } from "./core/config-file.js";
+// Configuration files
+export {
+  clearConfigCache,
+  findConfigFile,
+  loadConfig,
+} from "./core/config-file.js";
+export type {
+  AliveBarOptions,
+  ColorOptions,
+  ReceiptSymbols,
+  ReportTarget,
+  ResolvedConfig,
+  Stage,
+} from "./core/configuration.js";
 // Configuration
 export {
   config,
@@ -62,9 +77,54 @@ export {
   resolveConfig,
   setGlobalConfig,
 } from "./core/configuration.js";
-export type { ProgressBar, Receipt } from "./core/progress.js";
+export type { AliveCopyOptions } from "./core/copy.js";
+// File copies
+export { aliveCopy } from "./core/copy.js";
+export type {
+  AliveExecOptions,
+  ExecReceipt,
+  OutputParser,
+  ParserName,
+} from "./core/exec.js";
+// Child processes
+export { aliveExec, parsers } from "./core/exec.js";
+export type { AliveFetchOptions } from "./core/fetch.js";
+// HTTP downloads
+export { aliveFetch } from "./core/fetch.js";
+export type { Layout, LayoutField, LayoutOption } from "./core/layout.js";
+// Layout templates
+export { parseLayout } from "./core/layout.js";
+export type { AliveMapOptions, MapReceipt } from "./core/map.js";
+// Concurrent mapping
+export { aliveMap } from "./core/map.js";
+// Multi-bar container
+export { MultiBar } from "./core/multi-bar.js";
+export type {
+  AliveItOptions,
+  BarCallback,
+  ProgressBar,
+  Receipt,
+} from "./core/progress.js";
 // Core progress bar
 export { aliveBar, aliveIt, aliveItSync } from "./core/progress.js";
+export type { Report } from "./core/report.js";
+export type {
+  AliveStream,
+  AliveStreamOptions,
+  HeadersLike,
+} from "./core/stream.js";
+// Node streams
+export { aliveStream } from "./core/stream.js";
+export type { Widget, WidgetContext } from "./core/widgets.js";
+// Custom widgets
+export {
+  getWidget,
+  registerWidget,
+  unregisterWidget,
+} from "./core/widgets.js";
+export type { WorkerProgress, WorkerProgressHandle } from "./core/worker.js";
+// Worker thread reporting
+export { workerProgress } from "./core/worker.js";
 export type { Theme } from "./styles/internal.js";
 // Built-in styles
 export {
@@ -75,8 +135,14 @@ export {
   listBars,
   listSpinners,
   listThemes,
+  registerBar,
+  registerSpinner,
+  registerTheme,
   spinners,
   themes,
+  unregisterBar,
+  unregisterSpinner,
+  unregisterTheme,
 } from "./styles/internal.js";
 export {
   getCellsWidth,
@@ -84,6 +150,13 @@ export {
   splitGraphemes,
   toCells,
 } from "./utils/cells.js";
+export type { Color, ColorLevel, ColorName } from "./utils/color-support.js";
+// Color support
+export {
+  colorCode,
+  detectColorLevel,
+  paint,
+} from "./utils/color-support.js";
 export {
   bgColors,
   brightColors,
@@ -95,6 +168,7 @@ export {
   style,
   styles,
 } from "./utils/colors.js";
+export type { RegisterOptions } from "./utils/registry.js";
 export type {
   TerminalOptions,
   TerminalWriter,
@@ -104,12 +178,14 @@ export {
   getTerminalWidth,
   isTTY,
 } from "./utils/terminal/index.js";
+export type { RateStats, Sample } from "./utils/timing.js";
 // Utilities
 export {
   ETACalculator,
   formatDuration,
   formatRate,
   RateSmoother,
+  SampleHistory,
   Timer,
 } from "./utils/timing.js";
 
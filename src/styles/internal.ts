@@ -20,6 +20,14 @@ import {
   type SpinnerFactory,
   scrollingSpinner,
 } from "../animations/spinners.js";
+import type { ColorOptions, ReceiptSymbols } from "../core/configuration.js";
+import type { LayoutOption } from "../core/layout.js";
+import {
+  checkRegistration,
+  type RegisterOptions,
+  unknownName,
+  warnOnce,
+} from "../utils/registry.js";
 
 // ============================================
 // BUILT-IN SPINNERS
@@ -277,10 +285,24 @@ export const bars: Record<string, BarFactory> = {
 // BUILT-IN THEMES
 // ============================================
 
+/**
+ * A theme: animations, plus any other look-and-feel settings. Options given
+ * to a bar (or globally) take precedence over the theme's.
+ */
 export interface Theme {
-  spinner: string;
-  bar: string;
-  unknown: string;
+  /** Name of a theme this one builds on, overriding what it sets */
+  extend?: string;
+  spinner?: string | SpinnerFactory;
+  bar?: string | BarFactory;
+  unknown?: string | SpinnerFactory;
+  length?: number;
+  colors?: ColorOptions;
+  monitor?: boolean | string;
+  elapsed?: boolean | string;
+  stats?: boolean | string;
+  receiptSymbols?: Partial<ReceiptSymbols>;
+  dualLine?: boolean;
+  layout?: LayoutOption;
 }
 
 export const themes: Record<string, Theme> = {
@@ -335,6 +357,27 @@ export const themes: Record<string, Theme> = {
 // ACCESSORS
 // ============================================
 
+const BUILT_IN_SPINNERS = new Set(Object.keys(spinners));
+const BUILT_IN_BARS = new Set(Object.keys(bars));
+const BUILT_IN_THEMES = new Set(Object.keys(themes));
+
+/**
+ * Look up a style by name. Unknown plain names warn and fall back to the
+ * default; unknown namespaced names are missing plugin styles, and throw.
+ */
+function lookup<T>(kind: string, registry: Record<string, T>, name: string): T {
+  if (Object.hasOwn(registry, name)) {
+    return registry[name];
+  }
+
+  const message = unknownName(kind, name, Object.keys(registry));
+  if (name.includes(":")) {
+    throw new Error(message);
+  }
+  warnOnce(`${message} (using the default ${kind})`);
+  return registry.default;
+}
+
 /**
  * Get a spinner by name, or return the default.
  */
@@ -342,7 +385,7 @@ export function getSpinner(name: string | SpinnerFactory): SpinnerFactory {
   if (typeof name === "function") {
     return name;
   }
-  return spinners[name] || spinners.default;
+  return lookup("spinner", spinners, name);
 }
 
 /**
@@ -352,14 +395,44 @@ export function getBar(name: string | BarFactory): BarFactory {
   if (typeof name === "function") {
     return name;
   }
-  return bars[name] || bars.default;
+  return lookup("bar", bars, name);
+}
+
+/**
+ * Get a theme by name (or the default one), with the themes it extends
+ * folded in.
+ */
+export function getTheme(name: string | Theme): Theme {
+  const theme = typeof name === "string" ? lookup("theme", themes, name) : name;
+  return flattenTheme(theme, []);
 }
 
 /**
- * Get a theme by name, or return the default.
+ * Fold a theme over the chain of themes it extends.
  */
-export function getTheme(name: string): Theme {
-  return themes[name] || themes.default;
+function flattenTheme(theme: Theme, chain: string[]): Theme {
+  if (theme.extend === undefined) {
+    return theme;
+  }
+  const { extend, ...own } = theme;
+
+  if (chain.includes(extend)) {
+    throw new Error(
+      `Theme "${extend}" extends itself (${[...chain, extend].join(" -> ")})`
+    );
+  }
+  if (!Object.hasOwn(themes, extend)) {
+    throw new Error(unknownName("theme", extend, Object.keys(themes)));
+  }
+  const parent = themes[extend];
+
+  const base = flattenTheme(parent, [...chain, extend]);
+  return {
+    ...base,
+    ...own,
+    colors: { ...base.colors, ...own.colors },
+    receiptSymbols: { ...base.receiptSymbols, ...own.receiptSymbols },
+  };
 }
 
 /**
@@ -382,3 +455,111 @@ export function listBars(): string[] {
 export function listThemes(): string[] {
   return Object.keys(themes);
 }
+
+// ============================================
+// REGISTRIES
+// ============================================
+
+/**
+ * Register a spinner, to be used by name in options and themes.
+ *
+ * @example
+ * registerSpinner('acme:pulse', frameSpinner(['◦', '•', '●', '•']));
+ * aliveBar(100, { spinner: 'acme:pulse' });
+ */
+export function registerSpinner(
+  name: string,
+  factory: SpinnerFactory,
+  options?: RegisterOptions
+): void {
+  checkRegistration(
+    "spinner",
+    name,
+    {
+      builtIn: BUILT_IN_SPINNERS.has(name),
+      taken: Object.hasOwn(spinners, name),
+    },
+    options
+  );
+  spinners[name] = factory;
+}
+
+/**
+ * Register a bar, to be used by name in options and themes.
+ *
+ * @example
+ * registerBar('acme:stripes', barFactory({ chars: '▚', background: '·' }));
+ */
+export function registerBar(
+  name: string,
+  factory: BarFactory,
+  options?: RegisterOptions
+): void {
+  checkRegistration(
+    "bar",
+    name,
+    { builtIn: BUILT_IN_BARS.has(name), taken: Object.hasOwn(bars, name) },
+    options
+  );
+  bars[name] = factory;
+}
+
+/**
+ * Register a theme, to be used by name in options or extended by others.
+ *
+ * @example
+ * registerTheme('acme:house', {
+ *   extend: 'classic',
+ *   spinner: 'acme:pulse',
+ *   colors: { bar: '#5fd700' },
+ * });
+ */
+export function registerTheme(
+  name: string,
+  theme: Theme,
+  options?: RegisterOptions
+): void {
+  checkRegistration(
+    "theme",
+    name,
+    { builtIn: BUILT_IN_THEMES.has(name), taken: Object.hasOwn(themes, name) },
+    options
+  );
+  themes[name] = theme;
+}
+
+/**
+ * Remove a registered entry, leaving built-ins alone.
+ */
+function unregister<T>(
+  registry: Record<string, T>,
+  builtIns: Set<string>,
+  name: string
+): boolean {
+  if (builtIns.has(name) || !Object.hasOwn(registry, name)) {
+    return false;
+  }
+  delete registry[name];
+  return true;
+}
+
+/**
+ * Remove a registered spinner. Returns whether it existed; built-ins stay.
+ */
+export function unregisterSpinner(name: string): boolean {
+  return unregister(spinners, BUILT_IN_SPINNERS, name);
+}
+
+/**
+ * Remove a registered bar. Returns whether it existed; built-ins stay.
+ */
+export function unregisterBar(name: string): boolean {
+  return unregister(bars, BUILT_IN_BARS, name);
+}
+
+/**
+ * Remove a registered theme. Returns whether it existed; built-ins stay.
+ */
+export function unregisterTheme(name: string): boolean {
+  return unregister(themes, BUILT_IN_THEMES, name);
+}
@@ -197,3 +197,58 @@ export function cellsFromString(text: string): Cell[] {
 export function cellsToString(cells: Cell[]): string {
   return joinCells(cells);
 }
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape codes require control characters
+const ANSI_REGEX = /\x1b\[[0-9;?]*[A-Za-z]/g;
+const ANSI_RESET = "\x1b[0m";
+
+/**
+ * Get the display width of a string, ignoring ANSI escape sequences.
+ */
+export function getDisplayWidth(text: string): number {
+  return getStringWidth(text.replace(ANSI_REGEX, ""));
+}
+
+/**
+ * Truncate a string to a display width, marking the cut with an ellipsis.
+ *
+ * Grapheme clusters are never split, and ANSI escape sequences are kept whole
+ * and take no width. Styles left open by the cut are reset.
+ */
+export function truncateToWidth(
+  text: string,
+  maxWidth: number,
+  ellipsis = "…"
+): string {
+  if (getDisplayWidth(text) <= maxWidth) {
+    return text;
+  }
+
+  const ellipsisWidth = getStringWidth(ellipsis);
+  if (maxWidth < ellipsisWidth) {
+    return joinCells(truncateCells(toCells(ellipsis), maxWidth));
+  }
+
+  const budget = maxWidth - ellipsisWidth;
+  let result = "";
+  let width = 0;
+  let styled = false;
+  let index = 0;
+
+  for (const match of text.matchAll(ANSI_REGEX)) {
+    const cells = toCells(text.slice(index, match.index));
+    const kept = truncateCells(cells, budget - width);
+    result += joinCells(kept);
+    width += getCellsWidth(kept);
+    if (kept.length < cells.length) {
+      return `${result}${ellipsis}${styled ? ANSI_RESET : ""}`;
+    }
+
+    result += match[0];
+    styled = match[0] !== ANSI_RESET;
+    index = match.index + match[0].length;
+  }
+
+  const kept = truncateCells(toCells(text.slice(index)), budget - width);
+  return `${result}${joinCells(kept)}${ellipsis}${styled ? ANSI_RESET : ""}`;
+}
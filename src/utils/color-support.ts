@@ -0,0 +1,338 @@
+/**
+ * Color capability detection and color downgrading.
+ *
+ * Terminals support one of four color levels. Colors are given in whatever
+ * form is convenient (a name, a 256-color index or RGB) and drawn with the
+ * closest color the terminal can show, or not at all.
+ */
+
+import { CSI, RESET } from "./colors.js";
+
+/**
+ * Colors a terminal supports: 0 none, 1 the 16 basic colors, 2 the 256-color
+ * palette, 3 truecolor (24-bit RGB).
+ */
+export type ColorLevel = 0 | 1 | 2 | 3;
+
+/**
+ * Names of the 16 basic colors, in palette order.
+ */
+const COLOR_NAMES = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+  "white",
+  "brightBlack",
+  "brightRed",
+  "brightGreen",
+  "brightYellow",
+  "brightBlue",
+  "brightMagenta",
+  "brightCyan",
+  "brightWhite",
+] as const;
+
+/**
+ * Name of one of the 16 basic colors.
+ */
+export type ColorName = (typeof COLOR_NAMES)[number] | "gray" | "grey";
+
+/**
+ * A color: a basic color name, a hex string ("#f80" or "#ff8800"), an index
+ * in the 256-color palette, or an RGB triple.
+ */
+export type Color =
+  | ColorName
+  | `#${string}`
+  | number
+  | readonly [number, number, number];
+
+/**
+ * A color parsed to the level it was given at.
+ */
+type ParsedColor =
+  | { level: 1; index: number }
+  | { level: 2; index: number }
+  | { level: 3; rgb: [number, number, number] };
+
+const HEX_REGEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const COLOR_TERM_REGEX =
+  /^(xterm|screen|tmux|vt100|vt220|rxvt|linux|cygwin|ansi)|color/;
+
+/**
+ * Parse a color, throwing on anything that is not one.
+ */
+export function parseColor(color: Color): ParsedColor {
+  if (typeof color === "number") {
+    if (!Number.isInteger(color) || color < 0 || color > 255) {
+      throw new RangeError(`Invalid 256-color index: ${color}`);
+    }
+    return { level: 2, index: color };
+  }
+
+  if (Array.isArray(color)) {
+    if (
+      color.length !== 3 ||
+      color.some((c) => !Number.isInteger(c) || c < 0 || c > 255)
+    ) {
+      throw new RangeError(`Invalid RGB color: [${color.join(", ")}]`);
+    }
+    const [r, g, b] = color;
+    return { level: 3, rgb: [r, g, b] };
+  }
+
+  const name = color as string;
+  const hex = HEX_REGEX.exec(name);
+  if (hex) {
+    const digits =
+      hex[1].length === 3 ? [...hex[1]].map((d) => d + d).join("") : hex[1];
+    return {
+      level: 3,
+      rgb: [0, 2, 4].map((i) =>
+        Number.parseInt(digits.slice(i, i + 2), 16)
+      ) as [number, number, number],
+    };
+  }
+
+  if (name === "gray" || name === "grey") {
+    return { level: 1, index: 8 };
+  }
+  const index = COLOR_NAMES.indexOf(name as (typeof COLOR_NAMES)[number]);
+  if (index === -1) {
+    throw new Error(`Unknown color: "${name}"`);
+  }
+  return { level: 1, index };
+}
+
+/**
+ * RGB values of the 16 basic colors (xterm's defaults).
+ */
+const BASIC_RGB: [number, number, number][] = [
+  [0, 0, 0],
+  [205, 0, 0],
+  [0, 205, 0],
+  [205, 205, 0],
+  [0, 0, 238],
+  [205, 0, 205],
+  [0, 205, 205],
+  [229, 229, 229],
+  [127, 127, 127],
+  [255, 0, 0],
+  [0, 255, 0],
+  [255, 255, 0],
+  [92, 92, 255],
+  [255, 0, 255],
+  [0, 255, 255],
+  [255, 255, 255],
+];
+
+/**
+ * Closest 256-color palette index of an RGB color.
+ */
+export function rgbTo256(r: number, g: number, b: number): number {
+  // Grays have a finer ramp of their own
+  if (r === g && g === b) {
+    if (r < 8) {
+      return 16;
+    }
+    if (r > 248) {
+      return 231;
+    }
+    return 232 + Math.round(((r - 8) / 247) * 24);
+  }
+
+  const level = (c: number) => Math.round((c / 255) * 5);
+  return 16 + 36 * level(r) + 6 * level(g) + level(b);
+}
+
+/**
+ * Closest basic color index (0-15) of an RGB color.
+ */
+export function rgbTo16(r: number, g: number, b: number): number {
+  const brightness = Math.round((Math.max(r, g, b) / 255) * 2);
+  if (brightness === 0) {
+    return 0;
+  }
+
+  // Basic colors are ordered by their red, green and blue bits
+  const index =
+    Math.round(r / 255) + 2 * Math.round(g / 255) + 4 * Math.round(b / 255);
+  return brightness === 2 ? index + 8 : index;
+}
+
+/**
+ * RGB value of a 256-color palette index.
+ */
+function rgbOf256(index: number): [number, number, number] {
+  if (index < 16) {
+    return BASIC_RGB[index];
+  }
+  if (index >= 232) {
+    const gray = 8 + (index - 232) * 10;
+    return [gray, gray, gray];
+  }
+
+  const cube = index - 16;
+  const value = (c: number) => (c === 0 ? 0 : 55 + c * 40);
+  return [
+    value(Math.floor(cube / 36)),
+    value(Math.floor(cube / 6) % 6),
+    value(cube % 6),
+  ];
+}
+
+/**
+ * RGB value of any color.
+ */
+export function toRgb(color: Color): [number, number, number] {
+  const parsed = parseColor(color);
+  return parsed.level === 3 ? parsed.rgb : rgbOf256(parsed.index);
+}
+
+/**
+ * Color at `t` (0-1) along a gradient through the given colors, spaced
+ * evenly and interpolated in RGB.
+ */
+export function gradientAt(
+  stops: readonly [number, number, number][],
+  t: number
+): [number, number, number] {
+  if (stops.length === 1) {
+    return stops[0];
+  }
+
+  const position = Math.max(0, Math.min(1, t)) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const local = position - index;
+  const [from, to] = [stops[index], stops[index + 1]];
+
+  return [0, 1, 2].map((i) =>
+    Math.round(from[i] + (to[i] - from[i]) * local)
+  ) as [number, number, number];
+}
+
+/**
+ * Escape code drawing a color at the given level, downgraded as needed.
+ * Returns "" at level 0.
+ */
+export function colorCode(
+  color: Color,
+  level: ColorLevel,
+  background = false
+): string {
+  if (level === 0) {
+    return "";
+  }
+
+  const parsed = parseColor(color);
+  const layer = background ? 48 : 38;
+
+  if (parsed.level === 3 && level === 3) {
+    return `${CSI}${layer};2;${parsed.rgb.join(";")}m`;
+  }
+
+  let index: number;
+  if (parsed.level === 1) {
+    index = parsed.index;
+  } else if (parsed.level === 3) {
+    index = level === 2 ? rgbTo256(...parsed.rgb) : rgbTo16(...parsed.rgb);
+  } else {
+    index =
+      level >= 2 || parsed.index < 16
+        ? parsed.index
+        : rgbTo16(...rgbOf256(parsed.index));
+  }
+
+  if (index >= 16) {
+    return `${CSI}${layer};5;${index}m`;
+  }
+
+  const base = (background ? 40 : 30) + (index >= 8 ? 60 : 0);
+  return `${CSI}${base + (index % 8)}m`;
+}
+
+/**
+ * Draw text in a color, if any, at the given level.
+ */
+export function paint(
+  text: string,
+  color: Color | undefined,
+  level: ColorLevel
+): string {
+  if (color === undefined || level === 0 || text === "") {
+    return text;
+  }
+  return `${colorCode(color, level)}${text}${RESET}`;
+}
+
+/**
+ * Parse a FORCE_COLOR value: null when unset, else the level it forces.
+ */
+function forcedLevel(value: string | undefined): ColorLevel | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (value === "" || value === "true") {
+    return 1;
+  }
+  if (value === "false") {
+    return 0;
+  }
+
+  const level = Number.parseInt(value, 10);
+  return Number.isNaN(level)
+    ? 1
+    : (Math.max(0, Math.min(3, level)) as ColorLevel);
+}
+
+/**
+ * Detect the color level of a stream.
+ *
+ * FORCE_COLOR wins over everything (0-3, or empty/"true" for at least 16
+ * colors). Otherwise NO_COLOR, a non-TTY stream or TERM=dumb turn colors off,
+ * and COLORTERM and TERM tell how many there are.
+ */
+export function detectColorLevel(
+  stream: NodeJS.WriteStream = process.stdout,
+  env: NodeJS.ProcessEnv = process.env
+): ColorLevel {
+  const forced = forcedLevel(env.FORCE_COLOR);
+  if (forced === 0) {
+    return 0;
+  }
+
+  if (forced === null) {
+    if (env.NO_COLOR !== undefined && env.NO_COLOR !== "") {
+      return 0;
+    }
+    if (stream.isTTY !== true) {
+      return 0;
+    }
+  }
+
+  const minimum = forced ?? 0;
+  const term = (env.TERM ?? "").toLowerCase();
+  const colorTerm = (env.COLORTERM ?? "").toLowerCase();
+
+  if (term === "dumb") {
+    return minimum;
+  }
+
+  let detected: ColorLevel = 0;
+  if (colorTerm === "truecolor" || colorTerm === "24bit") {
+    detected = 3;
+  } else if (term.endsWith("-256color") || term.endsWith("-256")) {
+    detected = 2;
+  } else if (colorTerm !== "" || COLOR_TERM_REGEX.test(term)) {
+    detected = 1;
+  } else if (process.platform === "win32") {
+    // Windows 10+ consoles draw truecolor without setting TERM
+    detected = 3;
+  }
+
+  return Math.max(minimum, detected) as ColorLevel;
+}
@@ -0,0 +1,114 @@
+/**
+ * Shared rules of the named registries (spinners, bars, themes, widgets).
+ *
+ * Names are plain ("pulse") or namespaced ("acme:pulse"), so plugins can ship
+ * styles without clashing. Built-in names are reserved, and a name already
+ * taken is only replaced when asked to.
+ */
+
+/**
+ * Options for registering a named style or widget.
+ */
+export interface RegisterOptions {
+  /** Replace what was registered earlier under the same name */
+  replace?: boolean;
+}
+
+const NAME_REGEX = /^(?:[A-Za-z0-9][\w-]*:)?[A-Za-z0-9][\w-]*$/;
+
+/**
+ * Check a registration against the collision rules, throwing if it breaks one.
+ */
+export function checkRegistration(
+  kind: string,
+  name: string,
+  state: { builtIn: boolean; taken: boolean },
+  options: RegisterOptions = {}
+): void {
+  if (!NAME_REGEX.test(name)) {
+    throw new Error(
+      `Invalid ${kind} name "${name}" (use "name" or "namespace:name")`
+    );
+  }
+  if (state.builtIn) {
+    throw new Error(`Cannot replace the built-in "${name}" ${kind}`);
+  }
+  if (state.taken && !options.replace) {
+    throw new Error(
+      `A ${kind} named "${name}" is already registered (pass { replace: true } to replace it)`
+    );
+  }
+}
+
+/**
+ * Edit distance between two strings.
+ */
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Names close to an unknown one, closest first.
+ */
+export function closeMatches(
+  name: string,
+  candidates: string[],
+  max = 3
+): string[] {
+  const needle = name.toLowerCase();
+  const threshold = Math.max(2, Math.floor(needle.length / 3));
+
+  return candidates
+    .map((candidate) => {
+      const lower = candidate.toLowerCase();
+      const score = lower.includes(needle) ? 0 : distance(needle, lower);
+      return { candidate, score };
+    })
+    .filter(({ score }) => score <= threshold)
+    .sort((a, b) => a.score - b.score || a.candidate.localeCompare(b.candidate))
+    .slice(0, max)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Describe an unknown name, suggesting close matches.
+ */
+export function unknownName(
+  kind: string,
+  name: string,
+  candidates: string[]
+): string {
+  const matches = closeMatches(name, candidates);
+  const hint =
+    matches.length > 0
+      ? `. Did you mean ${matches.map((match) => `"${match}"`).join(", ")}?`
+      : "";
+  return `Unknown ${kind} "${name}"${hint}`;
+}
+
+const warned = new Set<string>();
+
+/**
+ * Emit a process warning, once per distinct message.
+ */
+export function warnOnce(message: string): void {
+  if (warned.has(message)) {
+    return;
+  }
+  warned.add(message);
+  process.emitWarning(message, "AliveProgressWarning");
+}
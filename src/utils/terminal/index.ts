@@ -2,6 +2,8 @@
  * Terminal abstraction layer for different output environments.
  */
 
+import { getDisplayWidth } from "../cells.js";
+import { cursor } from "../colors.js";
 import { NonTTYWriter, VoidWriter } from "./non-tty.js";
 import { type TerminalWriter, TTYWriter } from "./tty.js";
 
@@ -59,3 +61,49 @@ export function getTerminalWidth(
 ): number {
   return stream.columns || 80;
 }
+
+/**
+ * Clear the last `count` lines, leaving the cursor at the start of the topmost.
+ * The cursor is expected to be on the bottom line of the block.
+ */
+export function clearLines(terminal: TerminalWriter, count: number): void {
+  terminal.clearLine();
+  for (let i = 1; i < count; i++) {
+    terminal.write(cursor.up(1));
+    terminal.clearLine();
+  }
+}
+
+/**
+ * Count the rows a frame occupies on screen once its lines wrap at `columns`.
+ */
+export function countRows(frame: string, columns: number): number {
+  return frame
+    .split("\n")
+    .reduce(
+      (rows, line) =>
+        rows + Math.max(1, Math.ceil(getDisplayWidth(line) / columns)),
+      0
+    );
+}
+
+/**
+ * Call `listener` whenever the terminal behind `stream` is resized.
+ * Returns a function that stops listening.
+ */
+export function onResize(
+  stream: NodeJS.WriteStream,
+  listener: () => void
+): () => void {
+  // Plain writable objects (and non-TTY streams) never resize
+  if (typeof stream.on !== "function") {
+    return () => {
+      // Nothing to stop
+    };
+  }
+
+  stream.on("resize", listener);
+  return () => {
+    stream.off("resize", listener);
+  };
+}
@@ -213,6 +213,18 @@ export class ETACalculator {
     return this.rateSmoother.get();
   }
 
+  /**
+   * Warm up from previously saved progress, so a resumed run does not
+   * start with an empty rate or count the resumed position as new work.
+   */
+  seed(current: number, rate: number): void {
+    if (rate > 0) {
+      this.rateSmoother.update(rate);
+    }
+    this.lastCount = current;
+    this.lastTime = Date.now();
+  }
+
   /**
    * Reset the calculator.
    */
@@ -222,3 +234,121 @@ export class ETACalculator {
     this.lastTime = Date.now();
   }
 }
+
+/**
+ * Progress count at a point in time.
+ */
+export interface Sample {
+  /** Seconds since the bar started */
+  elapsed: number;
+  /** Items processed so far */
+  count: number;
+}
+
+/**
+ * Summary of the rates observed between samples.
+ */
+export interface RateStats {
+  min: number;
+  max: number;
+  /** Rate over the whole history, so each interval counts by its length */
+  avg: number;
+  p95: number;
+}
+
+/**
+ * Bounded history of progress samples.
+ *
+ * Samples are taken at most once per interval. When the history is full,
+ * every other sample is dropped and the interval doubles, so it always spans
+ * the whole run at a coarser resolution.
+ */
+export class SampleHistory {
+  private samples: Sample[] = [];
+  private interval: number;
+  private readonly maxSamples: number;
+
+  constructor(maxSamples = 120, interval = 0.25) {
+    this.maxSamples = maxSamples;
+    this.interval = interval;
+  }
+
+  /**
+   * Record a sample, unless the last one is more recent than the interval.
+   * Forced samples (e.g. the final one) are always kept, folded into the last
+   * one when it is that recent: a sliver of an interval has a noisy rate.
+   */
+  record(elapsed: number, count: number, force = false): void {
+    const last = this.samples.at(-1);
+    if (last && elapsed - last.elapsed < this.interval) {
+      if (!force) {
+        return;
+      }
+      // The first sample anchors the history, so it is never moved
+      if (this.samples.length > 1 || elapsed <= last.elapsed) {
+        last.elapsed = Math.max(last.elapsed, elapsed);
+        last.count = count;
+        return;
+      }
+    }
+
+    this.samples.push({ elapsed, count });
+    if (this.samples.length > this.maxSamples) {
+      const latest = this.samples.at(-1) as Sample;
+      this.samples = this.samples.filter((_, index) => index % 2 === 0);
+      if (this.samples.at(-1) !== latest) {
+        this.samples.push(latest);
+      }
+      this.interval *= 2;
+    }
+  }
+
+  /**
+   * Get the recorded samples, oldest first.
+   */
+  getSamples(): Sample[] {
+    return this.samples.map((sample) => ({ ...sample }));
+  }
+
+  /**
+   * Get the rate between each pair of consecutive samples.
+   */
+  getRates(): number[] {
+    const rates: number[] = [];
+    for (let i = 1; i < this.samples.length; i++) {
+      const previous = this.samples[i - 1];
+      const sample = this.samples[i];
+      rates.push(
+        Math.max(0, sample.count - previous.count) /
+          (sample.elapsed - previous.elapsed)
+      );
+    }
+    return rates;
+  }
+
+  /**
+   * Summarize the rates, or null with fewer than two samples.
+   */
+  getRateStats(): RateStats | null {
+    const rates = this.getRates();
+    if (rates.length === 0) {
+      return null;
+    }
+
+    const sorted = [...rates].sort((a, b) => a - b);
+    const p95Index = Math.min(
+      sorted.length - 1,
+      Math.ceil(sorted.length * 0.95) - 1
+    );
+
+    const first = this.samples[0];
+    const last = this.samples.at(-1) as Sample;
+
+    return {
+      min: sorted[0],
+      max: sorted.at(-1) as number,
+      avg: (last.count - first.count) / (last.elapsed - first.elapsed),
+      p95: sorted[p95Index],
+    };
+  }
+}
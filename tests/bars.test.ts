@@ -240,3 +240,70 @@ describe("bar clamps percent", () => {
     expect(frame.content).toBe("██████████");
   });
 });
+
+describe("bar colors", () => {
+  test("colors the fill and background apart, leaving borders plain", () => {
+    const bar = classicBar()(12, {
+      level: 1,
+      fill: "green",
+      background: "brightBlack",
+    });
+
+    expect(bar(0.5).content).toBe("[\x1b[32m#####\x1b[0m\x1b[90m-----\x1b[0m]");
+  });
+
+  test("stays plain without color support", () => {
+    const bar = classicBar()(12, { level: 0, fill: "green" });
+
+    expect(bar(0.5).content).toBe("[#####-----]");
+  });
+});
+
+describe("gradient bars", () => {
+  const gradient = barFactory({
+    chars: "#",
+    background: "-",
+    borders: ["[", "]"],
+    gradient: ["#ff0000", "#00ff00"],
+  });
+
+  test("colors each filled cell by its position in truecolor", () => {
+    const frame = gradient(7, { level: 3 })(1);
+
+    expect(frame.content).toBe(
+      "[\x1b[38;2;255;0;0m#\x1b[38;2;191;64;0m#\x1b[38;2;128;128;0m#" +
+        "\x1b[38;2;64;191;0m#\x1b[38;2;0;255;0m#\x1b[0m]"
+    );
+  });
+
+  test("colors the whole fill by the overall percent", () => {
+    const bar = barFactory({
+      chars: "#",
+      borders: null,
+      gradient: ["#ff0000", "#00ff00"],
+      gradientBy: "percent",
+    })(4, { level: 3 });
+
+    expect(bar(0.5).content).toBe("\x1b[38;2;128;128;0m##\x1b[0m  ");
+  });
+
+  test("falls back to the 256 and 16-color palettes", () => {
+    expect(gradient(4, { level: 2 })(1).content).toBe(
+      "[\x1b[38;5;196m#\x1b[38;5;46m#\x1b[0m]"
+    );
+    expect(gradient(4, { level: 1 })(1).content).toBe(
+      "[\x1b[91m#\x1b[92m#\x1b[0m]"
+    );
+  });
+
+  test("stays plain without color support", () => {
+    expect(gradient(7, { level: 0 })(0.4).content).toBe("[##---]");
+    expect(gradient(7)(0.4).content).toBe("[##---]");
+  });
+
+  test("rejects an empty gradient", () => {
+    expect(() => barFactory({ gradient: [] })).toThrow(
+      "A gradient needs at least one color"
+    );
+  });
+});
@@ -5,6 +5,7 @@ import {
   fixCells,
   getCellsWidth,
   getCharWidth,
+  getDisplayWidth,
   getGraphemeWidth,
   getStringWidth,
   joinCells,
@@ -12,6 +13,7 @@ import {
   splitGraphemes,
   toCells,
   truncateCells,
+  truncateToWidth,
 } from "../src/utils/cells";
 
 describe("splitGraphemes", () => {
@@ -217,3 +219,41 @@ describe("cellsFromString and cellsToString", () => {
     expect(result).toBe(original);
   });
 });
+
+describe("getDisplayWidth", () => {
+  test("ignores ANSI escape sequences", () => {
+    expect(getDisplayWidth("\x1b[31mred\x1b[0m")).toBe(3);
+  });
+
+  test("counts wide characters", () => {
+    expect(getDisplayWidth("\x1b[1m🚀\x1b[0m ok")).toBe(5);
+  });
+});
+
+describe("truncateToWidth", () => {
+  test("leaves text that fits untouched", () => {
+    expect(truncateToWidth("hello", 5)).toBe("hello");
+  });
+
+  test("cuts with an ellipsis within the width", () => {
+    expect(truncateToWidth("hello world", 8)).toBe("hello w…");
+  });
+
+  test("never splits wide graphemes", () => {
+    const result = truncateToWidth("ab🚀🚀", 5);
+
+    expect(result).toBe("ab🚀…");
+    expect(getDisplayWidth(result)).toBeLessThanOrEqual(5);
+  });
+
+  test("keeps ANSI sequences whole and resets open styles", () => {
+    const result = truncateToWidth("\x1b[31mred text\x1b[0m", 5);
+
+    expect(result).toBe("\x1b[31mred …\x1b[0m");
+    expect(getDisplayWidth(result)).toBe(5);
+  });
+
+  test("supports a custom ellipsis", () => {
+    expect(truncateToWidth("hello world", 8, "...")).toBe("hello...");
+  });
+});
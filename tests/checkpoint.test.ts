@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  readCheckpoint,
+  removeCheckpoint,
+  writeCheckpoint,
+} from "../src/core/checkpoint";
+import { aliveBar } from "../src/core/progress";
+
+let dir: string;
+let path: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "alive-progress-"));
+  path = join(dir, "job.checkpoint.json");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const saved = {
+  total: 100,
+  current: 40,
+  skipped: 0,
+  items: 0,
+  failed: 2,
+  elapsed: 20,
+  rate: 2,
+};
+
+describe("checkpoint files", () => {
+  test("write and read round-trip", () => {
+    writeCheckpoint(path, saved);
+
+    expect(readCheckpoint(path)).toEqual({ version: 1, ...saved });
+  });
+
+  test("read returns null for missing or invalid files", () => {
+    expect(readCheckpoint(path)).toBeNull();
+
+    writeFileSync(path, "not json");
+    expect(readCheckpoint(path)).toBeNull();
+
+    writeFileSync(path, JSON.stringify({ ...saved, version: 99 }));
+    expect(readCheckpoint(path)).toBeNull();
+  });
+
+  test("remove ignores missing files", () => {
+    expect(() => removeCheckpoint(path)).not.toThrow();
+  });
+});
+
+describe("aliveBar checkpoint option", () => {
+  test("resumes counters and elapsed time from a checkpoint", () => {
+    writeCheckpoint(path, saved);
+
+    const { bar, done } = aliveBar(100, { disable: true, checkpoint: path });
+
+    expect(bar.current).toBe(40);
+    expect(bar.failed).toBe(2);
+    expect(bar.elapsed).toBeGreaterThanOrEqual(20);
+    expect(bar.rate).toBe("2.0/s");
+
+    bar(60);
+    const receipt = done();
+
+    expect(receipt.count).toBe(100);
+    expect(receipt.elapsed).toBeGreaterThanOrEqual(20);
+    expect(receipt.sessionElapsed).toBeLessThan(20);
+  });
+
+  test("ignores a checkpoint saved for another total", () => {
+    writeCheckpoint(path, saved);
+
+    const { bar, done } = aliveBar(50, { disable: true, checkpoint: path });
+
+    expect(bar.current).toBe(0);
+
+    done();
+  });
+
+  test("saves progress when the bar does not finish", () => {
+    const { bar, done } = aliveBar(100, { disable: true, checkpoint: path });
+
+    bar(30);
+    done();
+
+    expect(readCheckpoint(path)?.current).toBe(30);
+  });
+
+  test("staged bars warn and neither resume nor save", () => {
+    writeCheckpoint(path, saved);
+    const emitWarning = spyOn(process, "emitWarning").mockImplementation(() => {
+      // Keep the test output clean
+    });
+
+    try {
+      const { bar, done } = aliveBar(100, {
+        disable: true,
+        checkpoint: path,
+        stages: ["fetch", "store"],
+      });
+
+      expect(bar.current).toBe(0);
+      bar(10);
+      done();
+
+      expect(readCheckpoint(path)?.current).toBe(40);
+      expect(String(emitWarning.mock.calls[0][0])).toContain(
+        "not supported with stages"
+      );
+    } finally {
+      emitWarning.mockRestore();
+    }
+  });
+
+  test("a checkpoint that cannot be removed does not break done()", () => {
+    mkdirSync(path);
+
+    const { bar, done } = aliveBar(10, { disable: true, checkpoint: path });
+    bar(10);
+
+    expect(done().success).toBe(true);
+  });
+
+  test("removes the checkpoint once the job completes", () => {
+    writeCheckpoint(path, saved);
+
+    const { bar, done } = aliveBar(100, { disable: true, checkpoint: path });
+    bar(60);
+    done();
+
+    expect(existsSync(path)).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import {
+  colorCode,
+  detectColorLevel,
+  gradientAt,
+  paint,
+  parseColor,
+  rgbTo16,
+  rgbTo256,
+  toRgb,
+} from "../src/utils/color-support";
+import { createFakeStream } from "./fake-stream";
+
+const tty = createFakeStream().stream;
+const pipe = createFakeStream({ isTTY: false }).stream;
+
+describe("detectColorLevel", () => {
+  test("reads the level from COLORTERM and TERM", () => {
+    expect(detectColorLevel(tty, { COLORTERM: "truecolor" })).toBe(3);
+    expect(detectColorLevel(tty, { TERM: "xterm-256color" })).toBe(2);
+    expect(detectColorLevel(tty, { TERM: "xterm" })).toBe(1);
+    expect(detectColorLevel(tty, { TERM: "dumb" })).toBe(0);
+  });
+
+  test("has no colors for pipes or with NO_COLOR", () => {
+    expect(detectColorLevel(pipe, { COLORTERM: "truecolor" })).toBe(0);
+    expect(
+      detectColorLevel(tty, { NO_COLOR: "1", COLORTERM: "truecolor" })
+    ).toBe(0);
+  });
+
+  test("ignores an empty NO_COLOR", () => {
+    expect(detectColorLevel(tty, { NO_COLOR: "", TERM: "xterm" })).toBe(1);
+  });
+
+  test("lets FORCE_COLOR win", () => {
+    expect(detectColorLevel(pipe, { FORCE_COLOR: "1" })).toBe(1);
+    expect(detectColorLevel(pipe, { FORCE_COLOR: "3" })).toBe(3);
+    expect(detectColorLevel(tty, { FORCE_COLOR: "", NO_COLOR: "1" })).toBe(1);
+    expect(
+      detectColorLevel(tty, { FORCE_COLOR: "0", COLORTERM: "truecolor" })
+    ).toBe(0);
+    expect(
+      detectColorLevel(pipe, { FORCE_COLOR: "1", TERM: "xterm-256color" })
+    ).toBe(2);
+  });
+});
+
+describe("parseColor", () => {
+  test("parses names, hex, palette indexes and RGB", () => {
+    expect(parseColor("brightRed")).toEqual({ level: 1, index: 9 });
+    expect(parseColor("gray")).toEqual({ level: 1, index: 8 });
+    expect(parseColor("#f80")).toEqual({ level: 3, rgb: [255, 136, 0] });
+    expect(parseColor(208)).toEqual({ level: 2, index: 208 });
+    expect(parseColor([1, 2, 3])).toEqual({ level: 3, rgb: [1, 2, 3] });
+  });
+
+  test("throws on invalid colors", () => {
+    expect(() => parseColor("orange" as "red")).toThrow(
+      'Unknown color: "orange"'
+    );
+    expect(() => parseColor(256)).toThrow(RangeError);
+    expect(() => parseColor([0, 0, 300])).toThrow(RangeError);
+  });
+});
+
+describe("colorCode", () => {
+  test("draws each color at its own level", () => {
+    expect(colorCode("red", 3)).toBe("\x1b[31m");
+    expect(colorCode(208, 3)).toBe("\x1b[38;5;208m");
+    expect(colorCode("#ff8800", 3)).toBe("\x1b[38;2;255;136;0m");
+    expect(colorCode("brightBlue", 3, true)).toBe("\x1b[104m");
+  });
+
+  test("downgrades to what the terminal supports", () => {
+    expect(colorCode("#ff8800", 2)).toBe(`\x1b[38;5;${rgbTo256(255, 136, 0)}m`);
+    expect(colorCode("#ff0000", 1)).toBe("\x1b[91m");
+    expect(colorCode(196, 1)).toBe("\x1b[91m");
+    expect(colorCode("red", 0)).toBe("");
+  });
+
+  test("maps grays to the gray ramp", () => {
+    expect(rgbTo256(128, 128, 128)).toBe(244);
+    expect(rgbTo256(0, 0, 0)).toBe(16);
+    expect(rgbTo16(0, 0, 0)).toBe(0);
+    expect(rgbTo16(255, 255, 255)).toBe(15);
+  });
+});
+
+describe("paint", () => {
+  test("wraps text in a color and a reset", () => {
+    expect(paint("hi", "green", 1)).toBe("\x1b[32mhi\x1b[0m");
+  });
+
+  test("leaves text plain without a color or color support", () => {
+    expect(paint("hi", undefined, 3)).toBe("hi");
+    expect(paint("hi", "green", 0)).toBe("hi");
+    expect(paint("", "green", 3)).toBe("");
+  });
+});
+
+describe("gradients", () => {
+  test("converts any color to RGB", () => {
+    expect(toRgb("#0080ff")).toEqual([0, 128, 255]);
+    expect(toRgb("brightRed")).toEqual([255, 0, 0]);
+    expect(toRgb(231)).toEqual([255, 255, 255]);
+  });
+
+  test("interpolates evenly between stops", () => {
+    const stops: [number, number, number][] = [
+      [255, 0, 0],
+      [255, 255, 0],
+      [0, 255, 0],
+    ];
+
+    expect(gradientAt(stops, 0)).toEqual([255, 0, 0]);
+    expect(gradientAt(stops, 0.25)).toEqual([255, 128, 0]);
+    expect(gradientAt(stops, 0.5)).toEqual([255, 255, 0]);
+    expect(gradientAt(stops, 1)).toEqual([0, 255, 0]);
+    expect(gradientAt(stops, 2)).toEqual([0, 255, 0]);
+  });
+
+  test("keeps a single stop solid", () => {
+    expect(gradientAt([[1, 2, 3]], 0.7)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  clearConfigCache,
+  findConfigFile,
+  getFileConfig,
+  loadConfig,
+  parseJsonc,
+} from "../src/core/config-file";
+import {
+  resetGlobalConfig,
+  resolveConfig,
+  setGlobalConfig,
+} from "../src/core/configuration";
+
+describe("parseJsonc", () => {
+  test("allows comments and trailing commas", () => {
+    const text = `{
+      // line comment
+      "title": "Build", /* block
+      comment */
+      "widgets": ["a", "b",],
+    }`;
+
+    expect(parseJsonc(text)).toEqual({ title: "Build", widgets: ["a", "b"] });
+  });
+
+  test("leaves strings alone", () => {
+    expect(parseJsonc('{ "url": "http://x/*y*/", "s": ",}" }')).toEqual({
+      url: "http://x/*y*/",
+      s: ",}",
+    });
+  });
+});
+
+describe("configuration files", () => {
+  let root: string;
+  let nested: string;
+  const cwd = process.cwd();
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "alive-config-"));
+    nested = join(root, "packages", "app");
+    mkdirSync(nested, { recursive: true });
+    clearConfigCache();
+    resetGlobalConfig();
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    rmSync(root, { recursive: true, force: true });
+    clearConfigCache();
+    resetGlobalConfig();
+  });
+
+  test("finds the nearest configuration, moving up", () => {
+    writeFileSync(join(root, ".aliveprogressrc"), '{ "title": "root" }');
+
+    expect(findConfigFile(nested)).toBe(join(root, ".aliveprogressrc"));
+    expect(getFileConfig(nested)).toEqual({ title: "root" });
+  });
+
+  test("stops at the nearest package.json", () => {
+    writeFileSync(join(root, ".aliveprogressrc"), '{ "title": "root" }');
+    writeFileSync(join(nested, "package.json"), '{ "name": "app" }');
+
+    expect(findConfigFile(nested)).toBeNull();
+    expect(getFileConfig(nested)).toEqual({});
+  });
+
+  test("skips a package.json that cannot be parsed, with a warning", () => {
+    const path = join(nested, "package.json");
+    writeFileSync(path, '{ "name": "app",');
+    const emitWarning = spyOn(process, "emitWarning").mockImplementation(() => {
+      // Keep the test output quiet
+    });
+
+    try {
+      expect(findConfigFile(nested)).toBeNull();
+
+      process.chdir(nested);
+      expect(() => resolveConfig({ disable: true })).not.toThrow();
+      expect(String(emitWarning.mock.calls[0][0])).toContain(
+        `Invalid JSON in ${path}`
+      );
+    } finally {
+      emitWarning.mockRestore();
+    }
+  });
+
+  test("reads the aliveProgress key of package.json", () => {
+    writeFileSync(join(root, ".aliveprogressrc"), '{ "title": "root" }');
+    writeFileSync(
+      join(nested, "package.json"),
+      JSON.stringify({ name: "app", aliveProgress: { length: 20 } })
+    );
+
+    expect(getFileConfig(nested)).toEqual({ length: 20 });
+  });
+
+  test("prefers the rc file over other files in a directory", () => {
+    writeFileSync(join(root, ".aliveprogressrc"), '{ "title": "rc" }');
+    writeFileSync(
+      join(root, "alive-progress.config.json"),
+      '{ "title": "json" }'
+    );
+
+    expect(getFileConfig(root)).toEqual({ title: "rc" });
+  });
+
+  test("loads JavaScript configurations", async () => {
+    writeFileSync(
+      join(root, "alive-progress.config.js"),
+      "module.exports = { title: 'cjs' };"
+    );
+    expect(getFileConfig(root)).toEqual({ title: "cjs" });
+
+    writeFileSync(
+      join(nested, "alive-progress.config.mjs"),
+      "export default { title: 'esm' };"
+    );
+    expect((await loadConfig(nested))?.options).toEqual({ title: "esm" });
+    expect(getFileConfig(nested)).toEqual({ title: "esm" });
+  });
+
+  test("skips ES modules the runtime cannot require, with a warning", () => {
+    const path = join(root, "alive-progress.config.js");
+    // What require() throws for ES modules on runtimes without require(esm)
+    writeFileSync(
+      path,
+      "throw Object.assign(new Error('esm'), { code: 'ERR_REQUIRE_ESM' });"
+    );
+    const emitWarning = spyOn(process, "emitWarning").mockImplementation(() => {
+      // Keep the test output quiet
+    });
+
+    try {
+      expect(getFileConfig(root)).toEqual({});
+      expect(String(emitWarning.mock.calls[0][0])).toContain(
+        "call `await loadConfig()`"
+      );
+    } finally {
+      emitWarning.mockRestore();
+    }
+  });
+
+  test("reports invalid files with their path", () => {
+    const path = join(root, ".aliveprogressrc");
+    writeFileSync(path, "{ title: }");
+    expect(() => getFileConfig(root)).toThrow(`Invalid JSON in ${path}`);
+
+    clearConfigCache();
+    writeFileSync(path, "[1, 2]");
+    expect(() => getFileConfig(root)).toThrow(
+      `Invalid configuration in ${path}: expected an object`
+    );
+  });
+
+  test("merges defaults < file < global < local", () => {
+    writeFileSync(
+      join(root, ".aliveprogressrc"),
+      `{
+        "title": "file",
+        "length": 20,
+        "unit": "B",
+        "colors": { "bar": "green", "title": "cyan" },
+      }`
+    );
+    process.chdir(root);
+    setGlobalConfig({ length: 30, colors: { bar: "red" } });
+
+    const resolved = resolveConfig({ title: "local" });
+
+    expect(resolved.title).toBe("local");
+    expect(resolved.length).toBe(30);
+    expect(resolved.unit).toBe("B");
+    expect(resolved.precision).toBe(1);
+    expect(resolved.colors).toEqual({ bar: "red", title: "cyan" });
+  });
+});
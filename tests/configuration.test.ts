@@ -8,6 +8,7 @@ import {
   resolveConfig,
   setGlobalConfig,
 } from "../src/core/configuration";
+import type { Theme } from "../src/styles/internal";
 
 describe("global configuration", () => {
   beforeEach(() => {
@@ -69,6 +70,7 @@ describe("resolveConfig", () => {
     expect(resolved.ctrlC).toBe(true);
     expect(resolved.dualLine).toBe(false);
     expect(resolved.refreshSecs).toBe(0);
+    expect(resolved.signal).toBeNull();
     expect(resolved.enrichPrint).toBe(true);
     expect(resolved.enrichOffset).toBe(0);
   });
@@ -255,3 +257,60 @@ describe("boolean widget options", () => {
     expect(resolved.receipt).toBe(false);
   });
 });
+
+describe("themes", () => {
+  beforeEach(() => {
+    resetGlobalConfig();
+  });
+
+  afterEach(() => {
+    resetGlobalConfig();
+  });
+
+  const house: Theme = {
+    extend: "classic",
+    length: 30,
+    colors: { bar: "green", title: "brightWhite" },
+    monitor: "{count} of {total}",
+    stats: false,
+    receiptSymbols: { success: "done", failure: "FAIL" },
+    dualLine: true,
+  };
+
+  test("fills in everything the theme sets", () => {
+    const resolved = resolveConfig({ theme: house });
+
+    expect(resolved.length).toBe(30);
+    expect(resolved.colors).toEqual({ bar: "green", title: "brightWhite" });
+    expect(resolved.monitor).toBe("{count} of {total}");
+    expect(resolved.stats).toBe(false);
+    expect(resolved.dualLine).toBe(true);
+    expect(resolved.receiptSymbols).toEqual({
+      success: "done",
+      warning: "⚠",
+      failure: "FAIL",
+      cancelled: "⊘",
+    });
+    expect(resolved.bar(12)(0.5).content).toBe("[#####-----]");
+  });
+
+  test("lets global and local options win over the theme", () => {
+    setGlobalConfig({ theme: house, length: 20, colors: { bar: "red" } });
+    const resolved = resolveConfig({
+      stats: true,
+      receiptSymbols: { success: "ok" },
+    });
+
+    expect(resolved.length).toBe(20);
+    expect(resolved.colors).toEqual({ bar: "red", title: "brightWhite" });
+    expect(resolved.stats).toBe(true);
+    expect(resolved.receiptSymbols.success).toBe("ok");
+    expect(resolved.receiptSymbols.failure).toBe("FAIL");
+  });
+
+  test("can carry a layout", () => {
+    const resolved = resolveConfig({ theme: { layout: "{title} {bar}" } });
+
+    expect(resolved.layout?.left).toHaveLength(3);
+  });
+});
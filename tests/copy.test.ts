@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { aliveCopy } from "../src/core/copy";
+
+let dir: string;
+let src: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "alive-progress-"));
+  src = join(dir, "src");
+  mkdirSync(join(src, "nested"), { recursive: true });
+  writeFileSync(join(src, "a.txt"), "a".repeat(100));
+  writeFileSync(join(src, "nested", "b.txt"), "b".repeat(300));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("aliveCopy", () => {
+  test("copies a tree, counting bytes and files", async () => {
+    const dest = join(dir, "dest");
+    const receipt = await aliveCopy(src, dest, { disable: true });
+
+    expect(readFileSync(join(dest, "nested", "b.txt"), "utf8")).toBe(
+      "b".repeat(300)
+    );
+    expect(receipt.total).toBe(400);
+    expect(receipt.count).toBe(400);
+    expect(receipt.items).toBe(2);
+    expect(receipt.success).toBe(true);
+  });
+
+  test("copies a single file to the destination path", async () => {
+    const dest = join(dir, "out", "copy.txt");
+    const receipt = await aliveCopy(join(src, "a.txt"), dest, {
+      disable: true,
+    });
+
+    expect(readFileSync(dest, "utf8")).toBe("a".repeat(100));
+    expect(receipt.items).toBe(1);
+  });
+
+  test("counts per-file failures in the receipt", async () => {
+    const dest = join(dir, "dest");
+    mkdirSync(dest);
+    writeFileSync(join(dest, "a.txt"), "existing");
+
+    const receipt = await aliveCopy(src, dest, {
+      disable: true,
+      overwrite: false,
+    });
+
+    expect(readFileSync(join(dest, "a.txt"), "utf8")).toBe("existing");
+    expect(existsSync(join(dest, "nested", "b.txt"))).toBe(true);
+    expect(receipt.failed).toBe(1);
+    expect(receipt.errors).toHaveLength(1);
+    expect(receipt.count).toBe(400);
+    expect(receipt.success).toBe(false);
+  });
+
+  test("filter skips entries", async () => {
+    const dest = join(dir, "dest");
+    const receipt = await aliveCopy(src, dest, {
+      disable: true,
+      filter: (path) => !path.endsWith("nested"),
+    });
+
+    expect(existsSync(join(dest, "nested"))).toBe(false);
+    expect(receipt.items).toBe(1);
+  });
+
+  test("move removes the source once copied", async () => {
+    const dest = join(dir, "dest");
+    await aliveCopy(src, dest, { disable: true, move: true });
+
+    expect(existsSync(src)).toBe(false);
+    expect(readFileSync(join(dest, "a.txt"), "utf8")).toBe("a".repeat(100));
+  });
+});
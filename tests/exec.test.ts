@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { fileURLToPath } from "node:url";
+import { aliveExec, parsers } from "../src/core/exec";
+import { createFakeStream } from "./fake-stream";
+
+/**
+ * Arguments running a script with the current runtime.
+ */
+function script(source: string): [string, string[]] {
+  return [process.execPath, ["-e", source]];
+}
+
+describe("parsers", () => {
+  test("percentage reads the first percentage", () => {
+    expect(parsers.percentage("Encoding... 42.5% (eta 3s)")).toBe(0.425);
+    expect(parsers.percentage("no progress here")).toBeNull();
+  });
+
+  test("fraction reads n/m", () => {
+    expect(parsers.fraction("[3/12] Compiling")).toBe(0.25);
+    expect(parsers.fraction("0/0")).toBeNull();
+  });
+
+  test("rsync reads progress lines only", () => {
+    expect(
+      parsers.rsync(
+        "  1,238,099  45%   1.23MB/s    0:00:12 (xfr#3, to-chk=10/20)"
+      )
+    ).toBe(0.45);
+    expect(parsers.rsync("sending incremental file list 50%")).toBeNull();
+  });
+});
+
+describe("aliveExec", () => {
+  test("succeeds on a zero exit code and passes other lines through", async () => {
+    const { stream: file, output } = createFakeStream({ isTTY: false });
+    const [command, args] = script(
+      'console.log("starting"); console.log("50%"); console.error("warning: slow");'
+    );
+
+    const receipt = await aliveExec(command, args, { file, forceTty: false });
+
+    expect(receipt.success).toBe(true);
+    expect(receipt.exitCode).toBe(0);
+    expect(receipt.percent).toBe(100);
+    expect(output.join("")).toContain("starting\n");
+    expect(output.join("")).toContain("warning: slow\n");
+    expect(output.join("")).not.toContain("50%\n");
+  });
+
+  test("a non-zero exit code fails the receipt", async () => {
+    const [command, args] = script('console.log("3/4"); process.exit(3);');
+
+    const receipt = await aliveExec(command, args, {
+      disable: true,
+      parse: "fraction",
+    });
+
+    expect(receipt.success).toBe(false);
+    expect(receipt.exitCode).toBe(3);
+    expect(receipt.percent).toBe(75);
+    expect(receipt.errors).toHaveLength(1);
+  });
+
+  test("custom parsers receive every line", async () => {
+    const lines: string[] = [];
+    const [command, args] = script('process.stdout.write("a\\rb\\nc");');
+
+    await aliveExec(command, args, {
+      disable: true,
+      parse: (line) => {
+        lines.push(line);
+        return null;
+      },
+    });
+
+    expect(lines).toEqual(["a", "b", "c"]);
+  });
+
+  test("rejects when the command cannot be started", async () => {
+    await expect(
+      aliveExec("alive-progress-no-such-command", [], { disable: true })
+    ).rejects.toThrow();
+  });
+});
+
+describe("alive-progress exec", () => {
+  const cli = fileURLToPath(new URL("../src/cli.ts", import.meta.url));
+
+  test("exits with the command's exit code", () => {
+    const result = spawnSync(
+      process.execPath,
+      [cli, "exec", "--", process.execPath, "-e", "process.exit(4)"],
+      { encoding: "utf8", timeout: 30_000 }
+    );
+
+    expect(result.status).toBe(4);
+  });
+
+  test("rejects unknown parsers", () => {
+    const result = spawnSync(
+      process.execPath,
+      [cli, "exec", "--parse", "nope", "--", "true"],
+      { encoding: "utf8", timeout: 30_000 }
+    );
+
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain('Unknown parser "nope"');
+  });
+});
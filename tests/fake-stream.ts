@@ -0,0 +1,28 @@
+/**
+ * Fake output stream shared by the tests.
+ */
+
+import { EventEmitter } from "node:events";
+
+/**
+ * Stream that records everything written to it. It is a TTY of the given
+ * width unless `isTTY` is false, and can emit "resize" like a real one.
+ */
+export function createFakeStream({
+  isTTY = true,
+  columns = isTTY ? 120 : undefined,
+}: {
+  isTTY?: boolean;
+  columns?: number;
+} = {}): { stream: NodeJS.WriteStream; output: string[] } {
+  const output: string[] = [];
+  const stream = Object.assign(new EventEmitter(), {
+    isTTY,
+    columns,
+    write(chunk: string) {
+      output.push(chunk);
+      return true;
+    },
+  }) as unknown as NodeJS.WriteStream;
+  return { stream, output };
+}
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createServer,
+  get,
+  type IncomingMessage,
+  type Server,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { gzipSync } from "node:zlib";
+import { aliveFetch } from "../src/core/fetch";
+
+const BODY = "x".repeat(10_000);
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === "/sized") {
+      res.writeHead(200, { "content-length": Buffer.byteLength(BODY) });
+      res.end(BODY);
+    } else if (req.url === "/gzip") {
+      const compressed = gzipSync(BODY);
+      res.writeHead(200, {
+        "content-encoding": "gzip",
+        "content-length": compressed.byteLength,
+      });
+      res.end(compressed);
+    } else if (req.url === "/chunked") {
+      res.write(BODY.slice(0, 5000));
+      res.end(BODY.slice(5000));
+    } else {
+      // Promise more than is sent, then drop the connection
+      res.writeHead(200, { "content-length": 20_000 });
+      res.write(BODY, () => res.destroy());
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+async function readAll(stream: AsyncIterable<Buffer>): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+function request(path: string): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    get(`${baseUrl}${path}`, resolve).on("error", reject);
+  });
+}
+
+describe("aliveFetch", () => {
+  test("tracks a fetch() Response sized by content-length", async () => {
+    const download = aliveFetch(await fetch(`${baseUrl}/sized`), {
+      disable: true,
+    });
+
+    expect(await readAll(download)).toBe(BODY);
+    const receipt = await download.receipt;
+
+    expect(receipt.total).toBe(10_000);
+    expect(receipt.count).toBe(10_000);
+    expect(receipt.success).toBe(true);
+  });
+
+  test("runs in unknown mode for a compressed fetch() Response", async () => {
+    const download = aliveFetch(await fetch(`${baseUrl}/gzip`), {
+      disable: true,
+    });
+
+    expect(await readAll(download)).toBe(BODY);
+    const receipt = await download.receipt;
+
+    expect(receipt.total).toBeNull();
+    expect(receipt.count).toBe(10_000);
+    expect(receipt.overflow).toBe(false);
+    expect(receipt.success).toBe(true);
+  });
+
+  test("tracks an http.IncomingMessage", async () => {
+    const download = aliveFetch(await request("/sized"), { disable: true });
+
+    expect(await readAll(download)).toBe(BODY);
+    expect((await download.receipt).success).toBe(true);
+  });
+
+  test("runs in unknown mode without content-length", async () => {
+    const download = aliveFetch(await request("/chunked"), { disable: true });
+
+    expect(await readAll(download)).toBe(BODY);
+    const receipt = await download.receipt;
+
+    expect(receipt.total).toBeNull();
+    expect(receipt.count).toBe(10_000);
+  });
+
+  test("marks the bar failed when the response is cut short", async () => {
+    const download = aliveFetch(await request("/broken"), { disable: true });
+
+    await expect(readAll(download)).rejects.toThrow();
+    const receipt = await download.receipt;
+
+    expect(receipt.success).toBe(false);
+  });
+});
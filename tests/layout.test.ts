@@ -0,0 +1,182 @@
+import { describe, expect, test } from "bun:test";
+import { type AliveBarOptions, resolveConfig } from "../src/core/configuration";
+import {
+  type LayoutField,
+  parseLayout,
+  parseTemplate,
+  renderLayout,
+  renderTokens,
+} from "../src/core/layout";
+import { createHandler, createState, renderFrame } from "../src/core/progress";
+import { getDisplayWidth } from "../src/utils/cells";
+import { stripAnsi } from "../src/utils/colors";
+import { createTerminal } from "../src/utils/terminal";
+import { createFakeStream } from "./fake-stream";
+
+const values: Record<string, string> = {
+  title: "Build",
+  percent: "5%",
+  count: "1",
+};
+
+const resolve = (field: LayoutField) => values[field.name] ?? "";
+
+/**
+ * Render a frame of a bar with the given layout, after some progress.
+ */
+function frame(layout: string, count = 0): string {
+  const state = createState(
+    10,
+    resolveConfig({ layout, theme: "classic", length: 10 }),
+    createTerminal({ disable: true })
+  );
+  createHandler(state)(count);
+  return renderFrame(state);
+}
+
+describe("parseTemplate", () => {
+  test("splits literals and placeholders", () => {
+    expect(parseTemplate("{count}/{total} done")).toEqual([
+      { name: "count", align: "<", width: null, precision: null },
+      "/",
+      { name: "total", align: "<", width: null, precision: null },
+      " done",
+    ]);
+  });
+
+  test("parses alignment, width and precision", () => {
+    expect(parseTemplate("{rate:>10.2}")).toEqual([
+      { name: "rate", align: ">", width: 10, precision: 2 },
+    ]);
+  });
+
+  test("escapes doubled braces", () => {
+    expect(parseTemplate("{{literal}}")).toEqual(["{literal}"]);
+  });
+
+  test("rejects malformed templates", () => {
+    expect(() => parseTemplate("{count")).toThrow("Unclosed");
+    expect(() => parseTemplate("count}")).toThrow("Unmatched");
+    expect(() => parseTemplate("{count:x}")).toThrow("Invalid placeholder");
+  });
+});
+
+describe("renderLayout", () => {
+  test("pads fields to their width and alignment", () => {
+    const tokens = parseTemplate("[{title:8}][{percent:>4}][{count:^5}]");
+
+    expect(renderTokens(tokens, resolve)).toBe("[Build   ][  5%][  1  ]");
+  });
+
+  test("repeats placeholders", () => {
+    expect(renderTokens(parseTemplate("{title} {title}"), resolve)).toBe(
+      "Build Build"
+    );
+  });
+
+  test("pushes the right part against the right edge", () => {
+    const layout = parseLayout({ left: "{title}", right: "{percent}" });
+
+    expect(renderLayout(layout, 12, resolve)).toBe("Build     5%");
+  });
+});
+
+describe("layout option", () => {
+  test("renders bar placeholders", () => {
+    expect(frame("{count}/{total} [{percent:>4}] {percent:.1}", 5)).toBe(
+      "5/10 [ 50%] 50.0%"
+    );
+  });
+
+  test("clips text to the precision", () => {
+    const state = createState(
+      10,
+      resolveConfig({ layout: "{text:.3}|" }),
+      createTerminal({ disable: true })
+    );
+    state.text = "abcdef";
+
+    expect(renderFrame(state)).toBe("abc|");
+  });
+
+  test("draws the bar once per frame", () => {
+    const line = frame("{bar} {bar}", 5);
+    const [first, second] = line.split(" ");
+
+    expect(first).toBe(second);
+  });
+
+  test("custom monitor formats replace every occurrence", () => {
+    const state = createState(
+      10,
+      resolveConfig({
+        monitor: "{count} of {total} ({count})",
+        layout: "{monitor}",
+      }),
+      createTerminal({ disable: true })
+    );
+    createHandler(state)(3);
+
+    expect(renderFrame(state)).toBe("3 of 10 (3)");
+  });
+
+  test("invalid layouts fail when the bar is configured", () => {
+    expect(() => resolveConfig({ layout: "{oops" })).toThrow();
+  });
+});
+
+describe("line fitting", () => {
+  /**
+   * Render the default line of a bar on a terminal of the given width.
+   */
+  function renderAt(columns: number, options: AliveBarOptions = {}): string {
+    const { stream } = createFakeStream({ columns });
+    const state = createState(
+      100,
+      resolveConfig({ theme: "classic", length: 10, ...options }),
+      createTerminal({ stream, forceTty: true })
+    );
+    state.text = "processing a rather long file name.txt";
+    createHandler(state)(50);
+    return stripAnsi(renderFrame(state));
+  }
+
+  test("drops text first, then stats, then elapsed", () => {
+    const full = renderAt(200);
+    expect(full).toContain("file name.txt");
+    expect(full).toContain("/s");
+    expect(full).toContain("in ");
+
+    const seen = new Set<string>();
+    for (let columns = full.length; columns >= 20; columns--) {
+      const line = renderAt(columns);
+      expect(getDisplayWidth(line)).toBeLessThanOrEqual(columns);
+
+      if (!line.includes("/s")) {
+        expect(line).not.toContain("file name");
+      }
+      if (!line.includes("in ")) {
+        expect(line).not.toContain("/s");
+      }
+      if (line.includes("50/100 [50%]") && !line.includes("in ")) {
+        seen.add("minimal");
+      }
+      if (line.includes("/s") && !line.includes("file name")) {
+        seen.add("no text");
+      }
+    }
+
+    expect(seen).toEqual(new Set(["minimal", "no text"]));
+  });
+
+  test("clips what still does not fit to the terminal width", () => {
+    const line = renderAt(12);
+
+    expect(getDisplayWidth(line)).toBeLessThanOrEqual(12);
+    expect(line.endsWith("…")).toBe(true);
+  });
+
+  test("clips layouts too", () => {
+    expect(getDisplayWidth(renderAt(10, { layout: "{bar} {text}" }))).toBe(10);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import { aliveMap } from "../src/core/map";
+
+describe("aliveMap", () => {
+  test("returns results in input order", async () => {
+    const receipt = await aliveMap(
+      [30, 10, 20],
+      async (ms) => {
+        await Bun.sleep(ms);
+        return ms * 2;
+      },
+      { disable: true, concurrency: 3 }
+    );
+
+    expect(receipt.results).toEqual([60, 20, 40]);
+    expect(receipt.count).toBe(3);
+    expect(receipt.success).toBe(true);
+  });
+
+  test("respects the concurrency limit", async () => {
+    let running = 0;
+    let peak = 0;
+
+    await aliveMap(
+      Array.from({ length: 10 }, (_, i) => i),
+      async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await Bun.sleep(2);
+        running--;
+      },
+      { disable: true, concurrency: 3 }
+    );
+
+    expect(peak).toBe(3);
+  });
+
+  test("passes the item index", async () => {
+    const receipt = await aliveMap(
+      ["a", "b"],
+      (item, index) => `${item}${index}`,
+      {
+        disable: true,
+      }
+    );
+
+    expect(receipt.results).toEqual(["a0", "b1"]);
+  });
+
+  test("counts failures without stopping other items", async () => {
+    const error = new Error("bad");
+
+    const receipt = await aliveMap(
+      [1, 2, 3, 4],
+      (n) => {
+        if (n % 2 === 0) {
+          throw error;
+        }
+        return n;
+      },
+      { disable: true, concurrency: 2 }
+    );
+
+    expect(receipt.results).toEqual([1, undefined, 3, undefined]);
+    expect(receipt.failed).toBe(2);
+    expect(receipt.errors).toEqual([error, error]);
+    expect(receipt.success).toBe(false);
+  });
+
+  test("works with async iterables", async () => {
+    async function* gen() {
+      yield 1;
+      await Bun.sleep(1);
+      yield 2;
+    }
+
+    const receipt = await aliveMap(gen(), (n) => n + 1, { disable: true });
+
+    expect(receipt.results).toEqual([2, 3]);
+    expect(receipt.total).toBeNull();
+  });
+
+  test("stops starting items once aborted", async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const receipt = await aliveMap(
+      [1, 2, 3, 4, 5],
+      async (n) => {
+        started.push(n);
+        if (n === 2) {
+          controller.abort();
+        }
+        await Bun.sleep(1);
+      },
+      { disable: true, concurrency: 1, signal: controller.signal }
+    );
+
+    expect(started).toEqual([1, 2]);
+    expect(receipt.cancelled).toBe(true);
+  });
+
+  test("rejects an invalid concurrency", async () => {
+    await expect(
+      aliveMap([1], (n) => n, { disable: true, concurrency: 0 })
+    ).rejects.toThrow(RangeError);
+    await expect(
+      aliveMap([1], (n) => n, { disable: true, concurrency: 2.5 })
+    ).rejects.toThrow(RangeError);
+  });
+
+  test("runs every item at once with unbounded concurrency", async () => {
+    let active = 0;
+    let peak = 0;
+    const receipt = await aliveMap(
+      [1, 2, 3, 4, 5],
+      async (n) => {
+        active++;
+        peak = Math.max(peak, active);
+        await Bun.sleep(5);
+        active--;
+        return n;
+      },
+      { disable: true, concurrency: Number.POSITIVE_INFINITY }
+    );
+
+    expect(peak).toBe(5);
+    expect(receipt.results).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test("rejects unbounded concurrency over items of unknown length", async () => {
+    function* gen() {
+      yield 1;
+    }
+
+    await expect(
+      aliveMap(gen(), (n) => n, {
+        disable: true,
+        concurrency: Number.POSITIVE_INFINITY,
+      })
+    ).rejects.toThrow(RangeError);
+  });
+
+  test("rethrows errors from the source iterable", async () => {
+    async function* gen() {
+      yield 1;
+      await Bun.sleep(1);
+      throw new Error("source failed");
+    }
+
+    await expect(aliveMap(gen(), (n) => n, { disable: true })).rejects.toThrow(
+      "source failed"
+    );
+  });
+});
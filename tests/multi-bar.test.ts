@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { resetGlobalConfig } from "../src/core/configuration";
+import { MultiBar } from "../src/core/multi-bar";
+import { screen, stripAnsi } from "../src/utils/colors";
+import { createFakeStream } from "./fake-stream";
+
+describe("MultiBar", () => {
+  beforeEach(() => {
+    resetGlobalConfig();
+  });
+
+  afterEach(() => {
+    resetGlobalConfig();
+  });
+
+  test("tracks bars independently", () => {
+    const multi = new MultiBar({ disable: true });
+    const a = multi.add(10);
+    const b = multi.add(20);
+
+    a.bar(3);
+    b.bar(7);
+
+    expect(a.bar.current).toBe(3);
+    expect(b.bar.current).toBe(7);
+    expect(multi.size).toBe(2);
+
+    multi.done();
+  });
+
+  test("done() on a bar returns its receipt while others keep running", () => {
+    const multi = new MultiBar({ disable: true });
+    const a = multi.add(2);
+    const b = multi.add(5);
+
+    a.bar(2);
+    const receipt = a.done();
+
+    expect(receipt.count).toBe(2);
+    expect(receipt.success).toBe(true);
+
+    b.bar();
+    expect(b.bar.current).toBe(1);
+    expect(b.bar.receipt).toBeNull();
+
+    multi.done();
+  });
+
+  test("multi done() finishes all remaining bars", () => {
+    const multi = new MultiBar({ disable: true });
+    const a = multi.add(10);
+    const b = multi.add(10);
+
+    a.bar(10);
+    b.bar(4);
+
+    const receipts = multi.done();
+
+    expect(receipts).toHaveLength(2);
+    expect(receipts[0].success).toBe(true);
+    expect(receipts[1].underflow).toBe(true);
+    expect(b.bar.receipt).not.toBeNull();
+  });
+
+  test("remove() drops a bar from the block", () => {
+    const multi = new MultiBar({ disable: true });
+    const a = multi.add(10);
+    multi.add(10);
+
+    multi.remove(a.bar);
+
+    expect(multi.size).toBe(1);
+    expect(a.bar.receipt).not.toBeNull();
+
+    multi.done();
+  });
+
+  test("add() throws after done()", () => {
+    const multi = new MultiBar({ disable: true });
+    multi.done();
+
+    expect(() => multi.add(10)).toThrow();
+  });
+
+  test("bar options are merged over container options", () => {
+    const multi = new MultiBar({ disable: true, title: "Shared" });
+    const a = multi.add(10);
+    const b = multi.add(10, { title: "Own" });
+
+    expect(a.bar.title).toBe("Shared");
+    expect(b.bar.title).toBe("Own");
+
+    multi.done();
+  });
+
+  test("aborting a bar's signal cancels only that bar", () => {
+    const controller = new AbortController();
+    const multi = new MultiBar({ disable: true });
+    const a = multi.add(10, { signal: controller.signal });
+    const b = multi.add(10);
+
+    controller.abort();
+    b.bar();
+
+    expect(a.bar.receipt?.cancelled).toBe(true);
+    expect(b.bar.receipt).toBeNull();
+
+    multi.done();
+  });
+
+  test("aborting the container's signal cancels every running bar", () => {
+    const controller = new AbortController();
+    const multi = new MultiBar({ disable: true, signal: controller.signal });
+    const a = multi.add(1);
+    const b = multi.add(10);
+
+    a.bar();
+    a.done();
+    controller.abort();
+
+    expect(a.bar.receipt?.cancelled).toBe(false);
+    expect(b.bar.receipt?.cancelled).toBe(true);
+    expect(() => multi.add(1)).toThrow();
+  });
+
+  test("renders bars as a stacked block", () => {
+    const { stream, output } = createFakeStream();
+    const multi = new MultiBar({
+      file: stream,
+      forceTty: true,
+      enrichPrint: false,
+      ctrlC: false,
+    });
+    const a = multi.add(10, { title: "first" });
+    const b = multi.add(10, { title: "second" });
+
+    a.bar(10);
+    a.done();
+    b.bar(5);
+    multi.done();
+
+    // The final block is written line by line
+    const finalLines = output
+      .filter((chunk) => chunk.endsWith("\n"))
+      .map((chunk) => stripAnsi(chunk));
+
+    expect(finalLines).toHaveLength(2);
+    expect(finalLines[0]).toContain("first");
+    expect(finalLines[0]).toContain("✓");
+    expect(finalLines[1]).toContain("second");
+    expect(finalLines[1]).toContain("⚠");
+  });
+
+  test("print() from a bar redraws the whole block below the text", () => {
+    const { stream, output } = createFakeStream();
+    const multi = new MultiBar({
+      file: stream,
+      forceTty: true,
+      enrichPrint: false,
+      ctrlC: false,
+    });
+    const a = multi.add(10, { title: "first" });
+    multi.add(10, { title: "second" });
+
+    output.length = 0;
+    a.bar.print("hello");
+
+    // Both rows of the block are cleared, then redrawn below the text
+    const hello = output.indexOf("hello\n");
+    const cleared = output.slice(0, hello).join("");
+    expect(cleared.split(screen.clearLine)).toHaveLength(3);
+
+    const redrawn = stripAnsi(output.slice(hello + 1).join(""));
+    expect(redrawn).toContain("first");
+    expect(redrawn).toContain("second");
+
+    multi.done();
+  });
+
+  test("prints receipts as bars finish when not interactive", () => {
+    const { stream, output } = createFakeStream();
+    const multi = new MultiBar({ file: stream, forceTty: false, ctrlC: false });
+    const a = multi.add(1, { title: "only" });
+
+    a.bar();
+    a.done();
+
+    expect(output.join("")).toContain("only");
+    expect(output.join("")).toContain("✓");
+
+    multi.done();
+  });
+
+  test("redraws the block when the terminal is resized", () => {
+    const { stream, output } = createFakeStream();
+    const multi = new MultiBar({ file: stream, theme: "classic" });
+    multi.add(10, { title: "a" }).bar(5);
+
+    output.length = 0;
+    stream.columns = 30;
+    stream.emit("resize");
+
+    const frame = stripAnsi(output.join(""));
+    expect(frame).toContain("a [######-------]");
+    expect(stream.listenerCount("resize")).toBe(1);
+
+    multi.done();
+    expect(stream.listenerCount("resize")).toBe(0);
+  });
+});
@@ -1,6 +1,31 @@
-import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { resetGlobalConfig } from "../src/core/configuration";
-import { aliveBar, aliveIt, aliveItSync } from "../src/core/progress";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import {
+  type AliveBarOptions,
+  resetGlobalConfig,
+  resolveConfig,
+  setGlobalConfig,
+} from "../src/core/configuration";
+import {
+  aliveBar,
+  aliveIt,
+  aliveItSync,
+  createHandler,
+  createState,
+  type ProgressBar,
+  type Receipt,
+  renderFrame,
+} from "../src/core/progress";
+import { getDisplayWidth } from "../src/utils/cells";
+import { cursor, stripAnsi } from "../src/utils/colors";
+import { countRows, createTerminal } from "../src/utils/terminal";
+import { createFakeStream } from "./fake-stream";
 
 describe("aliveBar", () => {
   beforeEach(() => {
@@ -199,6 +224,212 @@ describe("aliveBar", () => {
   });
 });
 
+describe("failure accounting", () => {
+  test("bar.fail() counts failed items and advances the bar", () => {
+    const { bar, done } = aliveBar(10, { disable: true });
+
+    bar(7);
+    bar.fail();
+    bar.fail(2, new Error("bad item"));
+
+    expect(bar.current).toBe(10);
+    expect(bar.failed).toBe(3);
+    expect(bar.monitor).toContain("10/10 [100%] 3✗");
+
+    const receipt = done();
+
+    expect(receipt.failed).toBe(3);
+    expect(receipt.errors).toHaveLength(1);
+    expect(receipt.overflow).toBe(false);
+    expect(receipt.underflow).toBe(false);
+    expect(receipt.success).toBe(false);
+  });
+
+  test("bar(count, { failed: true }) counts failed items", () => {
+    const { bar, done } = aliveBar(5, { disable: true });
+
+    bar(4);
+    bar(1, { failed: true });
+
+    expect(bar.failed).toBe(1);
+    expect(done().failed).toBe(1);
+  });
+
+  test("monitor hides the failure count when nothing failed", () => {
+    const { bar, done } = aliveBar(10, { disable: true });
+
+    bar();
+
+    expect(bar.monitor).not.toContain("✗");
+
+    done();
+  });
+
+  test("manual mode fail() only counts failures", () => {
+    const { bar, done } = aliveBar(100, { disable: true, manual: true });
+
+    bar(0.5);
+    bar.fail(2);
+
+    expect(bar.current).toBe(50);
+    expect(bar.failed).toBe(2);
+
+    done();
+  });
+
+  test("errors thrown by the callback form are recorded", async () => {
+    const error = new Error("boom");
+    let handle: ProgressBar | null = null;
+
+    await expect(
+      aliveBar(1, { disable: true }, (bar) => {
+        handle = bar;
+        throw error;
+      })
+    ).rejects.toThrow("boom");
+
+    expect((handle as ProgressBar | null)?.receipt?.errors).toEqual([error]);
+  });
+});
+
+describe("aliveBar callback form", () => {
+  test("runs the callback and resolves to the receipt", async () => {
+    const receipt = await aliveBar(3, { disable: true }, async (bar) => {
+      for (let i = 0; i < 3; i++) {
+        await Bun.sleep(1);
+        bar();
+      }
+    });
+
+    expect(receipt.count).toBe(3);
+    expect(receipt.success).toBe(true);
+  });
+
+  test("accepts a callback without options", async () => {
+    setGlobalConfig({ disable: true });
+
+    const receipt = await aliveBar(null, (bar) => {
+      bar();
+    });
+
+    expect(receipt.total).toBeNull();
+    expect(receipt.count).toBe(1);
+
+    resetGlobalConfig();
+  });
+
+  test("marks the receipt failed and rethrows when the callback throws", async () => {
+    let handle: ProgressBar | null = null;
+
+    const run = aliveBar(10, { disable: true }, async (bar) => {
+      handle = bar;
+      bar(10);
+      await Bun.sleep(1);
+      throw new Error("boom");
+    });
+
+    await expect(run).rejects.toThrow("boom");
+
+    const receipt = (handle as ProgressBar | null)?.receipt;
+    expect(receipt).not.toBeNull();
+    expect(receipt?.success).toBe(false);
+    expect(receipt?.count).toBe(10);
+  });
+});
+
+describe("aliveBar cancellation", () => {
+  test("aborting the signal cancels the bar", () => {
+    const controller = new AbortController();
+    const { bar, done } = aliveBar(10, {
+      disable: true,
+      signal: controller.signal,
+    });
+
+    bar(4);
+    controller.abort();
+    bar();
+
+    expect(bar.receipt).not.toBeNull();
+    expect(bar.receipt?.cancelled).toBe(true);
+    expect(bar.receipt?.success).toBe(false);
+    expect(bar.receipt?.count).toBe(4);
+
+    // done() after cancellation returns the same receipt
+    expect(done()).toBe(bar.receipt as Receipt);
+  });
+
+  test("an already aborted signal cancels right away", () => {
+    const { bar, done } = aliveBar(10, {
+      disable: true,
+      signal: AbortSignal.abort(),
+    });
+
+    expect(bar.receipt?.cancelled).toBe(true);
+    expect(done().cancelled).toBe(true);
+  });
+
+  test("receipt is not cancelled without an abort", () => {
+    const controller = new AbortController();
+    const { bar, done } = aliveBar(1, {
+      disable: true,
+      signal: controller.signal,
+    });
+
+    bar();
+    const receipt = done();
+    controller.abort();
+
+    expect(receipt.cancelled).toBe(false);
+    expect(receipt.success).toBe(true);
+  });
+
+  test("aliveIt ends iteration cleanly once aborted", async () => {
+    const controller = new AbortController();
+    const collected: number[] = [];
+
+    for await (const item of aliveIt([1, 2, 3, 4, 5], {
+      disable: true,
+      signal: controller.signal,
+    })) {
+      collected.push(item);
+      if (item === 2) {
+        controller.abort();
+      }
+    }
+
+    expect(collected).toEqual([1, 2]);
+  });
+
+  test("aliveItSync ends iteration cleanly once aborted", () => {
+    const controller = new AbortController();
+    const collected: number[] = [];
+
+    for (const item of aliveItSync([1, 2, 3], {
+      disable: true,
+      signal: controller.signal,
+    })) {
+      collected.push(item);
+      controller.abort();
+    }
+
+    expect(collected).toEqual([1]);
+  });
+
+  test("aborting cancels a child bar", () => {
+    const controller = new AbortController();
+    const { bar, done } = aliveBar(2, { disable: true });
+    const child = bar.child(5, { signal: controller.signal });
+
+    child.bar(2);
+    controller.abort();
+
+    expect(child.bar.receipt?.cancelled).toBe(true);
+    expect(bar.current).toBe(0);
+
+    done();
+  });
+});
+
 describe("aliveBar manual mode", () => {
   test("manual mode sets percentage directly", () => {
     const { bar, done } = aliveBar(100, { disable: true, manual: true });
@@ -242,6 +473,386 @@ describe("aliveBar options", () => {
   });
 });
 
+describe("child bars", () => {
+  test("child progress rolls up into the parent", () => {
+    const { bar, done } = aliveBar(4, { disable: true });
+    const child = bar.child(10);
+
+    child.bar(5);
+    expect(bar.monitor).toContain("0.5/4");
+
+    child.bar(5);
+    child.done();
+
+    // A finished child counts as one unit of the parent
+    expect(bar.current).toBe(1);
+    expect(bar.monitor).toContain("1/4 [25%]");
+
+    done();
+  });
+
+  test("parent receipt lists child receipts", () => {
+    const { bar, done } = aliveBar(2, { disable: true });
+
+    const first = bar.child(3, { title: "first" });
+    first.bar(3);
+    const firstReceipt = first.done();
+
+    const second = bar.child(3, { title: "second" });
+    second.bar();
+
+    const receipt = done();
+
+    expect(firstReceipt.success).toBe(true);
+    expect(receipt.count).toBe(1);
+    expect(receipt.children).toHaveLength(2);
+    expect(receipt.children[1].underflow).toBe(true);
+    expect(second.bar.receipt).not.toBeNull();
+  });
+
+  test("children can be nested", () => {
+    const { bar, done } = aliveBar(1, { disable: true });
+    const child = bar.child(2);
+    const grandchild = child.bar.child(4);
+
+    grandchild.bar(2);
+    expect(child.bar.monitor).toContain("0.5/2");
+
+    grandchild.done();
+    child.bar();
+    child.done();
+
+    expect(bar.current).toBe(1);
+
+    const receipt = done();
+    expect(receipt.success).toBe(true);
+    expect(receipt.children[0].children).toHaveLength(1);
+  });
+
+  test("print() from a child redraws the parent's block", () => {
+    const { stream: file, output } = createFakeStream();
+    const { bar, done } = aliveBar(2, {
+      file,
+      title: "parent",
+      enrichPrint: false,
+      ctrlC: false,
+    });
+    const child = bar.child(4, { title: "child" });
+    child.bar(1);
+
+    output.length = 0;
+    child.bar.print("hello");
+
+    const hello = output.indexOf("hello\n");
+    expect(hello).toBeGreaterThan(-1);
+    expect(stripAnsi(output.slice(hello + 1).join(""))).toContain("parent");
+
+    child.done();
+    done();
+  });
+
+  test("finished children feed the parent's statistics", async () => {
+    const { bar, done } = aliveBar(3, { disable: true });
+
+    for (let i = 0; i < 3; i++) {
+      const child = bar.child(1);
+      await Bun.sleep(20);
+      child.bar();
+      child.done();
+    }
+    const receipt = done();
+
+    expect(receipt.count).toBe(3);
+    expect(receipt.success).toBe(true);
+    expect(receipt.timeToFirst).not.toBeNull();
+    expect(receipt.samples.at(-1)?.count).toBe(3);
+    expect(receipt.rateStats?.avg).toBeGreaterThan(0);
+  });
+
+  test("children draw in their parent's colors", () => {
+    const { stream } = createFakeStream();
+    const state = createState(
+      2,
+      resolveConfig({ file: stream, colorLevel: 2 }),
+      createTerminal({ stream })
+    );
+    const child = createHandler(state).child(4, {
+      title: "child",
+      colors: { title: "red" },
+    });
+
+    expect(renderFrame(state)).toContain("\x1b[31mchild");
+
+    child.done();
+  });
+
+  test("child done() is idempotent", () => {
+    const { bar, done } = aliveBar(2, { disable: true });
+    const child = bar.child(1);
+
+    child.bar();
+    child.done();
+    child.done();
+
+    expect(bar.current).toBe(1);
+
+    done();
+  });
+});
+
+describe("weighted progress", () => {
+  test("bar(weight) advances by weight and counts one item", () => {
+    const { bar, done } = aliveBar(1000, { disable: true, items: 3 });
+
+    bar(100);
+    bar(400);
+
+    expect(bar.current).toBe(500);
+    expect(bar.items).toBe(2);
+    expect(bar.monitor).toBe("2/3, 500/1000 [50%]");
+
+    bar(500);
+    const receipt = done();
+
+    expect(receipt.count).toBe(1000);
+    expect(receipt.items).toBe(3);
+    expect(receipt.success).toBe(true);
+  });
+
+  test("monitor shows items and scaled weights together", () => {
+    const { bar, done } = aliveBar(4 * 1024 ** 3, {
+      disable: true,
+      items: 40,
+      itemUnit: "files",
+      unit: "B",
+      scale: "IEC",
+    });
+
+    bar(1024 ** 3, { items: 12 });
+
+    expect(bar.monitor).toBe("12/40 files, 1.0GiB/4.0GiB [25%]");
+
+    done();
+  });
+
+  test("weighted failures are counted in items", () => {
+    const { bar, done } = aliveBar(100, { disable: true, items: 2 });
+
+    bar(60);
+    bar.fail(40);
+
+    expect(bar.failed).toBe(1);
+    expect(bar.items).toBe(2);
+
+    done();
+  });
+
+  test("unweighted receipt reports items as the count", () => {
+    const { bar, done } = aliveBar(3, { disable: true });
+
+    bar(3);
+
+    expect(done().items).toBe(3);
+  });
+
+  test("aliveIt totals weights of sized iterables", async () => {
+    const { stream: file, output } = createFakeStream({ isTTY: false });
+
+    for await (const _ of aliveIt([10, 30, 60], {
+      file,
+      forceTty: false,
+      ctrlC: false,
+      weight: (size) => size,
+    })) {
+      // Consume
+    }
+
+    // The receipt shows both items and weights
+    expect(output.join("")).toContain("3/3, 100/100 [100%]");
+  });
+
+  test("aliveItSync yields every item when weighted", () => {
+    const collected: number[] = [];
+
+    for (const size of aliveItSync([5, 15], {
+      disable: true,
+      weight: (size) => size,
+    })) {
+      collected.push(size);
+    }
+
+    expect(collected).toEqual([5, 15]);
+  });
+
+  test("aliveIt handles weights of unsized async iterables", async () => {
+    async function* gen() {
+      yield 1;
+      await Bun.sleep(1);
+      yield 2;
+    }
+
+    const collected: number[] = [];
+    for await (const item of aliveIt(gen(), {
+      disable: true,
+      weight: (item) => item * 10,
+    })) {
+      collected.push(item);
+    }
+
+    expect(collected).toEqual([1, 2]);
+  });
+});
+
+describe("stages", () => {
+  test("percent is weighted across stages", () => {
+    const { bar, done } = aliveBar(10, {
+      disable: true,
+      stages: [{ name: "download", weight: 3 }, "verify"],
+    });
+
+    bar(10);
+    expect(bar.monitor).toBe("10/10 [75%]");
+
+    bar.stage("verify", 4);
+    bar(2);
+    expect(bar.current).toBe(2);
+    expect(bar.monitor).toBe("2/4 [88%]");
+
+    bar(2);
+    const receipt = done();
+
+    expect(receipt.success).toBe(true);
+    expect(receipt.percent).toBe(100);
+    expect(receipt.stages.map((stage) => stage.name)).toEqual([
+      "download",
+      "verify",
+    ]);
+  });
+
+  test("unknown stage names throw with the declared stages", () => {
+    const { bar, done } = aliveBar(10, {
+      disable: true,
+      stages: ["build", "test"],
+    });
+
+    expect(() => bar.stage("deploy")).toThrow("build, test");
+
+    done();
+  });
+
+  test("naming the current stage sets its total only", () => {
+    const { bar, done } = aliveBar(null, {
+      disable: true,
+      stages: ["scan", "download"],
+    });
+
+    bar.stage("scan", 10);
+    bar(4);
+    expect(bar.monitor).toBe("4/10 [20%]");
+
+    bar(6);
+    bar.stage("download", 2);
+    bar(2);
+    const receipt = done();
+
+    expect(receipt.success).toBe(true);
+    expect(receipt.stages.map((stage) => stage.name)).toEqual([
+      "scan",
+      "download",
+    ]);
+  });
+
+  test("going back to an earlier stage throws", () => {
+    const { bar, done } = aliveBar(1, {
+      disable: true,
+      stages: ["build", "test"],
+    });
+
+    bar.stage("test");
+    expect(() => bar.stage("build")).toThrow('Cannot go back to stage "build"');
+
+    done();
+  });
+
+  test("finishing before the last stage is an underflow", () => {
+    const { bar, done } = aliveBar(2, {
+      disable: true,
+      stages: ["one", "two"],
+    });
+
+    bar(2);
+    const receipt = done();
+
+    expect(receipt.underflow).toBe(true);
+    expect(receipt.success).toBe(false);
+    expect(receipt.percent).toBe(50);
+  });
+
+  test("title shows the current stage", () => {
+    const { stream: file, output } = createFakeStream({ isTTY: false });
+    const { bar, done } = aliveBar(1, {
+      file,
+      forceTty: false,
+      title: "Deploy",
+      stages: ["build", "ship"],
+    });
+
+    bar();
+    bar.stage("ship", 1);
+    bar();
+    done();
+
+    expect(output.join("")).toContain("Deploy ship (2/2)");
+  });
+});
+
+describe("receipt statistics", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("reports time to first item, stalls and rate stats", () => {
+    let now = new Date("2026-01-01T00:00:00Z").getTime();
+    setSystemTime(now);
+    const { bar, done } = aliveBar(30, { disable: true });
+
+    now += 500;
+    setSystemTime(now);
+    bar(10);
+
+    now += 3000;
+    setSystemTime(now);
+    bar(20);
+
+    const receipt = done();
+
+    expect(receipt.timeToFirst).toBe(0.5);
+    expect(receipt.stalled).toBe(3);
+    expect(receipt.rateStats?.max).toBe(20);
+    expect(receipt.samples).toHaveLength(3);
+  });
+
+  test("renders a throughput sparkline when enabled", () => {
+    const { stream: file, output } = createFakeStream({ isTTY: false });
+    let now = new Date("2026-01-01T00:00:00Z").getTime();
+    setSystemTime(now);
+    const { bar, done } = aliveBar(3, {
+      file,
+      forceTty: false,
+      sparkline: true,
+    });
+
+    for (const count of [1, 2]) {
+      now += 1000;
+      setSystemTime(now);
+      bar(count);
+    }
+    done();
+
+    expect(output.join("")).toContain("(1.5/s) ▅█ ✓");
+  });
+});
+
 describe("aliveIt", () => {
   test("iterates over array", async () => {
     const items = [1, 2, 3, 4, 5];
@@ -338,5 +949,116 @@ describe("receipt data types", () => {
     expect(typeof receipt.success).toBe("boolean");
     expect(typeof receipt.overflow).toBe("boolean");
     expect(typeof receipt.underflow).toBe("boolean");
+    expect(typeof receipt.failed).toBe("number");
+    expect(Array.isArray(receipt.errors)).toBe(true);
+  });
+});
+
+describe("terminal resize", () => {
+  /**
+   * The last frame written, without colors and cursor moves.
+   */
+  function lastFrame(output: string[]): string {
+    return stripAnsi(
+      output.filter((chunk) => chunk.includes("[")).at(-1) ?? ""
+    );
+  }
+
+  test("refits the bar and clears every wrapped row at once", () => {
+    const { stream, output } = createFakeStream();
+    const { bar, done } = aliveBar(100, {
+      file: stream,
+      theme: "classic",
+      title: "Resizing",
+    });
+    bar(50);
+    bar.text = "some text that makes the line wider than the new terminal";
+
+    // Draw a wide frame, then shrink the terminal under it
+    stream.emit("resize");
+    const wide = output.at(-1) ?? "";
+    expect(getDisplayWidth(stripAnsi(wide))).toBeGreaterThan(40);
+
+    output.length = 0;
+    stream.columns = 40;
+    stream.emit("resize");
+
+    const ups = output.filter((chunk) => chunk === cursor.up(1)).length;
+    expect(ups).toBe(countRows(wide, 40) - 1);
+    expect(getDisplayWidth(lastFrame(output))).toBeLessThanOrEqual(40);
+    expect(lastFrame(output)).toContain("[#########---------]");
+
+    done();
+  });
+
+  test("stops listening once done", () => {
+    const { stream } = createFakeStream({ columns: 80 });
+    const { done } = aliveBar(10, { file: stream });
+
+    expect(stream.listenerCount("resize")).toBe(1);
+    done();
+    expect(stream.listenerCount("resize")).toBe(0);
+  });
+});
+
+describe("colors", () => {
+  /**
+   * Render one frame of a bar half done.
+   */
+  function drawFrame(options: AliveBarOptions): string {
+    const state = createState(
+      10,
+      resolveConfig({
+        theme: "classic",
+        length: 12,
+        title: "Colors",
+        colors: { title: "cyan", widgets: 244, bar: "#00ff00" },
+        ...options,
+      }),
+      createTerminal({ disable: true })
+    );
+    createHandler(state)(5);
+    return renderFrame(state);
+  }
+
+  test("draws parts in their colors, downgraded to the color level", () => {
+    const frame = drawFrame({ colorLevel: 2 });
+
+    expect(frame).toContain("\x1b[36mColors\x1b[0m");
+    expect(frame).toContain("\x1b[38;5;244m5/10 [50%]\x1b[0m");
+    expect(frame).toContain("[\x1b[38;5;46m#####\x1b[0m-----]");
+  });
+
+  test("draws nothing in color at level 0", () => {
+    const frame = drawFrame({ colorLevel: 0 });
+
+    expect(frame).toContain("Colors [");
+    expect(frame).not.toContain("\x1b[36m");
+  });
+
+  test("rejects invalid colors upfront", () => {
+    expect(() =>
+      aliveBar(10, { disable: true, colors: { title: "purple" as "red" } })
+    ).toThrow('Unknown color: "purple"');
+  });
+});
+
+describe("receipt symbols", () => {
+  test("close the receipt with the configured symbols", () => {
+    const { stream: file, output } = createFakeStream({ isTTY: false });
+    const options = {
+      file,
+      forceTty: false,
+      receiptSymbols: { success: "[ok]", warning: "[short]" },
+    };
+
+    aliveBar(1, options).done();
+    const full = aliveBar(1, options);
+    full.bar();
+    full.done();
+
+    const text = output.join("");
+    expect(text).toContain("[short]");
+    expect(text).toContain("[ok]");
   });
 });
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkRegistration,
+  closeMatches,
+  unknownName,
+} from "../src/utils/registry";
+
+describe("closeMatches", () => {
+  const names = ["dots", "dots2", "dots3", "classic", "waves", "acme:pulse"];
+
+  test("finds typos and partial names, closest first", () => {
+    expect(closeMatches("dost", names)).toEqual(["dots", "dots2", "dots3"]);
+    expect(closeMatches("clasic", names)).toEqual(["classic"]);
+    expect(closeMatches("pulse", names)).toEqual(["acme:pulse"]);
+  });
+
+  test("finds nothing for unrelated names", () => {
+    expect(closeMatches("zzzzzz", names)).toEqual([]);
+  });
+});
+
+describe("unknownName", () => {
+  test("suggests close matches", () => {
+    expect(unknownName("bar", "clasic", ["classic", "smooth"])).toBe(
+      'Unknown bar "clasic". Did you mean "classic"?'
+    );
+    expect(unknownName("bar", "zzz", ["classic"])).toBe('Unknown bar "zzz"');
+  });
+});
+
+describe("checkRegistration", () => {
+  const free = { builtIn: false, taken: false };
+
+  test("accepts plain and namespaced names", () => {
+    expect(() => checkRegistration("bar", "stripes", free)).not.toThrow();
+    expect(() => checkRegistration("bar", "acme:stripes", free)).not.toThrow();
+  });
+
+  test("rejects malformed names", () => {
+    for (const name of ["", "a:b:c", ":x", "with space"]) {
+      expect(() => checkRegistration("bar", name, free)).toThrow(
+        "Invalid bar name"
+      );
+    }
+  });
+
+  test("protects built-ins and taken names", () => {
+    expect(() =>
+      checkRegistration("bar", "classic", { builtIn: true, taken: true })
+    ).toThrow('Cannot replace the built-in "classic" bar');
+    expect(() =>
+      checkRegistration("bar", "mine", { builtIn: false, taken: true })
+    ).toThrow("already registered");
+    expect(() =>
+      checkRegistration(
+        "bar",
+        "mine",
+        { builtIn: false, taken: true },
+        { replace: true }
+      )
+    ).not.toThrow();
+  });
+});
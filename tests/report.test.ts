@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolveConfig } from "../src/core/configuration";
+import { aliveBar } from "../src/core/progress";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "alive-progress-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("report option", () => {
+  test("infers the format from the extension", () => {
+    expect(resolveConfig({ report: "out.json" }).report).toEqual({
+      path: "out.json",
+      format: "json",
+    });
+    expect(resolveConfig({ report: "runs.ndjson" }).report?.format).toBe(
+      "ndjson"
+    );
+    expect(
+      resolveConfig({ report: { path: "runs.log", format: "ndjson" } }).report
+        ?.format
+    ).toBe("ndjson");
+  });
+
+  test("done() writes a JSON report", () => {
+    const path = join(dir, "reports", "build.json");
+    const { bar, done } = aliveBar(2, {
+      disable: true,
+      title: "Build",
+      report: path,
+    });
+
+    bar.text = "linking";
+    bar(2);
+    done();
+
+    const report = JSON.parse(readFileSync(path, "utf8"));
+
+    expect(report.version).toBe(1);
+    expect(report.title).toBe("Build");
+    expect(report.text).toBe("linking");
+    expect(report.receipt.count).toBe(2);
+    expect(report.receipt.success).toBe(true);
+    expect(report.receipt.samples.length).toBeGreaterThan(0);
+    expect(report.options.title).toBe("Build");
+    expect(report.options).not.toHaveProperty("file");
+  });
+
+  test("NDJSON reports append one line per run", () => {
+    const path = join(dir, "runs.ndjson");
+
+    for (let run = 0; run < 2; run++) {
+      const { bar, done } = aliveBar(1, { disable: true, report: path });
+      bar();
+      done();
+    }
+
+    const lines = readFileSync(path, "utf8").trim().split("\n");
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).receipt.count).toBe(1);
+  });
+
+  test("errors keep their name and message", () => {
+    const path = join(dir, "report.json");
+    const { bar, done } = aliveBar(1, { disable: true, report: path });
+
+    bar.fail(1, new TypeError("bad row"));
+    done();
+
+    const report = JSON.parse(readFileSync(path, "utf8"));
+
+    expect(report.receipt.errors).toEqual([
+      { name: "TypeError", message: "bad row" },
+    ]);
+  });
+
+  test("values JSON cannot hold are still written", () => {
+    const path = join(dir, "report.json");
+    const { bar, done } = aliveBar(1, { disable: true, report: path });
+    const circular: Record<string, unknown> = { id: 10n };
+    circular.self = circular;
+
+    bar.fail(1, circular);
+    done();
+
+    const report = JSON.parse(readFileSync(path, "utf8"));
+
+    expect(report.receipt.errors).toEqual([{ id: "10", self: "[Circular]" }]);
+  });
+
+  test("a report that cannot be written warns instead of throwing", () => {
+    const path = join(dir, "taken");
+    mkdirSync(path);
+    const emitWarning = spyOn(process, "emitWarning").mockImplementation(() => {
+      // Keep the test output quiet
+    });
+
+    try {
+      const { bar, done } = aliveBar(1, {
+        disable: true,
+        report: { path, format: "json" },
+      });
+      bar();
+
+      expect(done().success).toBe(true);
+      expect(String(emitWarning.mock.calls[0][0])).toContain(
+        `Could not write the report to ${path}`
+      );
+    } finally {
+      emitWarning.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import { Readable, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { aliveStream, contentLength } from "../src/core/stream";
+
+/**
+ * Writable that discards everything.
+ */
+function sink(): Writable {
+  return new Writable({
+    objectMode: true,
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+}
+
+describe("aliveStream", () => {
+  test("counts bytes and finishes on end", async () => {
+    const counter = aliveStream({ total: 10, disable: true });
+
+    await pipeline(
+      Readable.from([Buffer.alloc(4), Buffer.alloc(6)]),
+      counter,
+      sink()
+    );
+    const receipt = await counter.receipt;
+
+    expect(receipt.count).toBe(10);
+    expect(receipt.success).toBe(true);
+  });
+
+  test("passes data through unchanged", async () => {
+    const chunks: string[] = [];
+    await pipeline(
+      Readable.from([Buffer.from("hello "), Buffer.from("world")]),
+      aliveStream({ disable: true }),
+      new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          chunks.push(chunk.toString());
+          callback();
+        },
+      })
+    );
+
+    expect(chunks.join("")).toBe("hello world");
+  });
+
+  test("counts chunks in object mode", async () => {
+    const counter = aliveStream({ count: "chunks", total: 3, disable: true });
+
+    await pipeline(
+      Readable.from([{ a: 1 }, { b: 2 }, { c: 3 }]),
+      counter,
+      sink()
+    );
+
+    expect((await counter.receipt).count).toBe(3);
+  });
+
+  test("takes the total from file stats", () => {
+    const counter = aliveStream({ fileStats: { size: 2048 }, disable: true });
+
+    expect(counter.bar.monitor).toContain("/2.0KiB");
+
+    counter.end();
+  });
+
+  test("marks the bar failed when the stream errors", async () => {
+    const counter = aliveStream({ total: 10, disable: true });
+    const source = new Readable({
+      read() {
+        this.push(Buffer.alloc(3));
+        this.destroy(new Error("disk gone"));
+      },
+    });
+
+    await expect(pipeline(source, counter, sink())).rejects.toThrow();
+    const receipt = await counter.receipt;
+
+    expect(receipt.success).toBe(false);
+    expect(receipt.count).toBe(3);
+    expect(receipt.errors).toHaveLength(1);
+  });
+});
+
+describe("contentLength", () => {
+  test("reads WHATWG and Node headers", () => {
+    expect(contentLength(new Headers({ "content-length": "512" }))).toBe(512);
+    expect(contentLength({ "content-length": "42" })).toBe(42);
+  });
+
+  test("returns null when missing or invalid", () => {
+    expect(contentLength(new Headers())).toBeNull();
+    expect(contentLength({ "content-length": "abc" })).toBeNull();
+  });
+});
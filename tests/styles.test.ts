@@ -1,4 +1,4 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
 import { barFactory } from "../src/animations/bars";
 import { frameSpinner } from "../src/animations/spinners";
 import {
@@ -9,8 +9,14 @@ import {
   listBars,
   listSpinners,
   listThemes,
+  registerBar,
+  registerSpinner,
+  registerTheme,
   spinners,
   themes,
+  unregisterBar,
+  unregisterSpinner,
+  unregisterTheme,
 } from "../src/styles/internal";
 
 describe("built-in spinners", () => {
@@ -150,6 +156,36 @@ describe("getTheme", () => {
     const theme = getTheme("nonexistent");
     expect(theme).toBe(themes.default);
   });
+
+  test("folds in the themes a theme extends", () => {
+    const theme = getTheme({
+      extend: "classic",
+      spinner: "dots",
+      colors: { title: "cyan" },
+    });
+
+    expect(theme.extend).toBeUndefined();
+    expect(theme.spinner).toBe("dots");
+    expect(theme.bar).toBe("classic");
+    expect(theme.colors).toEqual({ title: "cyan" });
+  });
+
+  test("rejects unknown and circular parents", () => {
+    expect(() => getTheme({ extend: "clasic" })).toThrow(
+      'Unknown theme "clasic". Did you mean "classic"?'
+    );
+
+    registerTheme("loopA", { extend: "loopB" });
+    registerTheme("loopB", { extend: "loopA" });
+    try {
+      expect(() => getTheme("loopA")).toThrow(
+        'Theme "loopB" extends itself (loopB -> loopA -> loopB)'
+      );
+    } finally {
+      unregisterTheme("loopA");
+      unregisterTheme("loopB");
+    }
+  });
 });
 
 describe("list functions", () => {
@@ -187,3 +223,80 @@ describe("spinner aliases", () => {
     expect(spinners.alive).toBe(spinners.dots2);
   });
 });
+
+describe("registries", () => {
+  afterEach(() => {
+    unregisterSpinner("acme:pulse");
+    unregisterBar("acme:stripes");
+    unregisterTheme("acme:house");
+  });
+
+  test("registered styles work by name", () => {
+    const pulse = frameSpinner(["◦", "●"]);
+    const stripes = barFactory({ chars: "▚" });
+    registerSpinner("acme:pulse", pulse);
+    registerBar("acme:stripes", stripes);
+    registerTheme("acme:house", {
+      extend: "classic",
+      spinner: "acme:pulse",
+      bar: "acme:stripes",
+    });
+
+    expect(getSpinner("acme:pulse")).toBe(pulse);
+    expect(getBar("acme:stripes")).toBe(stripes);
+    expect(getTheme("acme:house").unknown).toBe("classic");
+    expect(listThemes()).toContain("acme:house");
+  });
+
+  test("built-in names are reserved", () => {
+    expect(() => registerSpinner("dots", frameSpinner(["x"]))).toThrow(
+      'Cannot replace the built-in "dots" spinner'
+    );
+    expect(unregisterBar("classic")).toBe(false);
+    expect(bars.classic).toBeDefined();
+  });
+
+  test("taken names are only replaced when asked", () => {
+    const first = frameSpinner(["a"]);
+    const second = frameSpinner(["b"]);
+    registerSpinner("acme:pulse", first);
+
+    expect(() => registerSpinner("acme:pulse", second)).toThrow(
+      'A spinner named "acme:pulse" is already registered'
+    );
+    registerSpinner("acme:pulse", second, { replace: true });
+    expect(getSpinner("acme:pulse")).toBe(second);
+  });
+
+  test("names must be plain or namespaced", () => {
+    expect(() => registerBar("acme:", barFactory())).toThrow(
+      'Invalid bar name "acme:"'
+    );
+    expect(() => registerBar("a b", barFactory())).toThrow();
+  });
+
+  test("unknown plain names warn once and fall back to the default", () => {
+    const emitWarning = spyOn(process, "emitWarning").mockImplementation(() => {
+      // Keep the test output quiet
+    });
+    try {
+      expect(getSpinner("dotz")).toBe(spinners.default);
+      getSpinner("dotz");
+
+      expect(emitWarning).toHaveBeenCalledTimes(1);
+      expect(String(emitWarning.mock.calls[0][0])).toContain(
+        'Unknown spinner "dotz". Did you mean "dots"'
+      );
+    } finally {
+      emitWarning.mockRestore();
+    }
+  });
+
+  test("unknown namespaced names throw with close matches", () => {
+    registerSpinner("acme:pulse", frameSpinner(["◦"]));
+
+    expect(() => getSpinner("acme:puls")).toThrow(
+      'Unknown spinner "acme:puls". Did you mean "acme:pulse"?'
+    );
+  });
+});
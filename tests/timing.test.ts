@@ -4,6 +4,7 @@ import {
   formatDuration,
   formatRate,
   RateSmoother,
+  SampleHistory,
   Timer,
 } from "../src/utils/timing";
 
@@ -205,6 +206,15 @@ describe("ETACalculator", () => {
     expect(eta).toBe(Number.POSITIVE_INFINITY);
   });
 
+  test("seed warms up the rate from saved progress", () => {
+    const calc = new ETACalculator();
+    calc.seed(50, 10);
+
+    expect(calc.getRate()).toBe(10);
+    // Resumed position is not counted as new work
+    expect(calc.update(50, 100)).toBe(5);
+  });
+
   test("getRate returns current rate", async () => {
     const calc = new ETACalculator(0.5);
 
@@ -230,3 +240,93 @@ describe("ETACalculator", () => {
     expect(calc.getRate()).toBe(0);
   });
 });
+
+describe("SampleHistory", () => {
+  test("samples at most once per interval", () => {
+    const history = new SampleHistory(10, 1);
+
+    history.record(0, 0);
+    history.record(0.5, 5);
+    history.record(1, 10);
+
+    expect(history.getSamples()).toEqual([
+      { elapsed: 0, count: 0 },
+      { elapsed: 1, count: 10 },
+    ]);
+  });
+
+  test("forced samples are always kept", () => {
+    const history = new SampleHistory(10, 1);
+
+    history.record(0, 0);
+    history.record(0.5, 5, true);
+
+    expect(history.getSamples()).toHaveLength(2);
+  });
+
+  test("forced samples are folded into a recent one", () => {
+    const history = new SampleHistory(10, 1);
+
+    history.record(0, 0);
+    history.record(1, 10);
+    history.record(1.01, 11, true);
+
+    expect(history.getSamples()).toEqual([
+      { elapsed: 0, count: 0 },
+      { elapsed: 1.01, count: 11 },
+    ]);
+  });
+
+  test("a steady rate has no spike at the end", () => {
+    const history = new SampleHistory(120, 0.25);
+
+    // 100 items/s, then a final sample right after the last item
+    for (let i = 0; i <= 100; i++) {
+      history.record(i / 100, i);
+    }
+    history.record(1.003, 100, true);
+    const stats = history.getRateStats();
+
+    expect(stats?.max).toBeLessThan(105);
+    expect(stats?.p95).toBeLessThan(105);
+    expect(stats?.avg).toBeCloseTo(100, 0);
+  });
+
+  test("stays bounded while spanning the whole run", () => {
+    const history = new SampleHistory(8, 1);
+
+    for (let i = 0; i < 100; i++) {
+      history.record(i, i * 10);
+    }
+    history.record(100, 1000, true);
+    const samples = history.getSamples();
+
+    expect(samples.length).toBeLessThanOrEqual(8);
+    expect(samples[0].elapsed).toBe(0);
+    expect(samples.at(-1)?.elapsed).toBe(100);
+  });
+
+  test("summarizes rates between samples", () => {
+    const history = new SampleHistory(10, 1);
+
+    history.record(0, 0);
+    history.record(1, 10);
+    history.record(2, 40);
+    history.record(4, 40);
+
+    expect(history.getRates()).toEqual([10, 30, 0]);
+    expect(history.getRateStats()).toEqual({
+      min: 0,
+      max: 30,
+      avg: 10,
+      p95: 30,
+    });
+  });
+
+  test("has no rate stats with a single sample", () => {
+    const history = new SampleHistory();
+    history.record(0, 0);
+
+    expect(history.getRateStats()).toBeNull();
+  });
+});
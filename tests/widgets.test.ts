@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { aliveBar } from "../src/core/progress";
+import {
+  getWidget,
+  registerWidget,
+  renderWidget,
+  unregisterWidget,
+  type WidgetContext,
+} from "../src/core/widgets";
+import { stripAnsi } from "../src/utils/colors";
+import { createFakeStream } from "./fake-stream";
+
+const ctx: WidgetContext = {
+  current: 5,
+  total: 10,
+  percent: 50,
+  rate: 2,
+  eta: 2.5,
+  elapsed: 2.5,
+  title: "",
+  text: "",
+  data: { retries: 3 },
+};
+
+describe("registerWidget", () => {
+  afterEach(() => {
+    unregisterWidget("retries");
+  });
+
+  test("registers and renders a widget by name", () => {
+    registerWidget("retries", (c) => `retries: ${c.data.retries}`);
+
+    expect(getWidget("retries")).toBeDefined();
+    expect(renderWidget("retries", ctx)).toBe("retries: 3");
+  });
+
+  test("taken names are only replaced when asked", () => {
+    registerWidget("retries", () => "first");
+
+    expect(() => registerWidget("retries", () => "second")).toThrow(
+      'A widget named "retries" is already registered'
+    );
+    registerWidget("retries", () => "second", { replace: true });
+    expect(getWidget("retries")?.(ctx)).toBe("second");
+  });
+
+  test("built-in widgets cannot be replaced", () => {
+    expect(() => registerWidget("monitor", () => "")).toThrow();
+  });
+
+  test("unknown widgets render nothing", () => {
+    expect(renderWidget("nope", ctx)).toBe("");
+  });
+
+  test("a throwing widget renders a placeholder", () => {
+    registerWidget("retries", () => {
+      throw new Error("boom");
+    });
+
+    expect(renderWidget("retries", ctx)).toBe("?");
+  });
+
+  test("bars show widgets with their user data", async () => {
+    registerWidget("retries", (c) => `${c.data.retries ?? 0} retries`);
+    const { stream, output } = createFakeStream();
+    const { bar, done } = aliveBar(10, {
+      file: stream,
+      forceTty: true,
+      enrichPrint: false,
+      ctrlC: false,
+      stats: false,
+      widgets: ["retries"],
+    });
+
+    bar.data.retries = 2;
+    bar();
+    await Bun.sleep(100);
+    done();
+
+    expect(stripAnsi(output.join(""))).toContain("2 retries");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
+import { resolveConfig } from "../src/core/configuration";
+import {
+  aliveBar,
+  createHandler,
+  createState,
+  renderFrame,
+} from "../src/core/progress";
+import { workerProgress } from "../src/core/worker";
+import { createTerminal } from "../src/utils/terminal";
+
+const workerModule = fileURLToPath(
+  new URL("../src/core/worker.ts", import.meta.url)
+);
+
+describe("workerProgress", () => {
+  test("counts reported through the handle reach the bar", () => {
+    const { bar, done } = aliveBar(10, { disable: true });
+    const progress = workerProgress(bar.shareWithWorker());
+
+    progress();
+    progress(4);
+    progress.fail();
+
+    const receipt = done();
+
+    expect(receipt.count).toBe(6);
+    expect(receipt.failed).toBe(1);
+  });
+
+  test("text is passed to the bar", () => {
+    const { bar, done } = aliveBar(1, { disable: true });
+    const progress = workerProgress(structuredClone(bar.shareWithWorker()));
+
+    progress.text = "hashing a.bin";
+    progress();
+    done();
+
+    expect(bar.text).toBe("hashing a.bin");
+    expect(progress.text).toBe("hashing a.bin");
+  });
+
+  test("weighted progress tallies one item per call", () => {
+    const { bar, done } = aliveBar(300, { disable: true, items: 3 });
+    const progress = workerProgress(bar.shareWithWorker());
+
+    progress(100);
+    progress(200);
+    progress.fail(0);
+
+    const receipt = done();
+
+    expect(receipt.count).toBe(300);
+    expect(receipt.items).toBe(3);
+    expect(receipt.failed).toBe(1);
+  });
+
+  test("a read between a worker's two increments loses nothing", () => {
+    const state = createState(
+      10,
+      resolveConfig({ items: true }),
+      createTerminal({ disable: true })
+    );
+    const bar = createHandler(state);
+    const handle = bar.shareWithWorker();
+    // Slots: count, items, failed count, failed items
+    const counters = new BigInt64Array(handle.buffer, 0, 4);
+
+    // The bar draws after the count is bumped, before the items are
+    Atomics.add(counters, 0, 3n);
+    renderFrame(state);
+    Atomics.add(counters, 1, 1n);
+    Atomics.add(counters, 2, 2n);
+    renderFrame(state);
+    Atomics.add(counters, 3, 1n);
+    renderFrame(state);
+
+    expect(state.current).toBe(5);
+    expect(state.items).toBe(2);
+    expect(state.failed).toBe(1);
+  });
+
+  test("non-integer counts are rejected", () => {
+    const { bar, done } = aliveBar(1, { disable: true });
+    const progress = workerProgress(bar.shareWithWorker());
+
+    expect(() => progress(0.5)).toThrow(RangeError);
+
+    done();
+  });
+
+  test("several worker threads report into one bar", async () => {
+    const { bar, done } = aliveBar(400, { disable: true });
+    const handle = bar.shareWithWorker();
+    const source = `
+      const { workerData } = require("node:worker_threads");
+      const { workerProgress } = require(${JSON.stringify(workerModule)});
+      const progress = workerProgress(workerData);
+      for (let i = 0; i < 100; i++) progress();
+    `;
+
+    await Promise.all(
+      Array.from(
+        { length: 4 },
+        () =>
+          new Promise((resolve, reject) => {
+            const worker = new Worker(source, {
+              eval: true,
+              workerData: handle,
+            });
+            worker.on("exit", resolve);
+            worker.on("error", reject);
+          })
+      )
+    );
+
+    expect(done().count).toBe(400);
+  });
+});